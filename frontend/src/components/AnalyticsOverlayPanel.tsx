@@ -0,0 +1,131 @@
+import { Activity, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useAnalyticsOverlay, type HeatmapWindow } from "@/hooks/useAnalyticsOverlay";
+import type { AnalyticsLegend, AnalyticsMode } from "@/lib/canvasAnalytics";
+
+type AnalyticsOverlayControls = ReturnType<typeof useAnalyticsOverlay>;
+
+interface AnalyticsOverlayPanelProps {
+  analytics: AnalyticsOverlayControls;
+}
+
+const MODE_LABELS: Record<AnalyticsMode, string> = {
+  heatmap: "Heatmap",
+  age: "Age",
+  provenance: "Type"
+};
+
+const WINDOW_LABELS: Record<HeatmapWindow, string> = {
+  "1h": "1 hour",
+  "24h": "24 hours",
+  "7d": "7 days",
+  all: "All time"
+};
+
+const LegendBar = ({ legend }: { legend: AnalyticsLegend }) => (
+  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+    <span>{legend.title}:</span>
+    {legend.gradient ? (
+      <>
+        <span>{legend.entries[0]?.label}</span>
+        <span
+          className="h-2 w-24 rounded-sm border border-border"
+          style={{ background: `linear-gradient(to right, ${legend.gradient.join(", ")})` }}
+        />
+        <span>{legend.entries[legend.entries.length - 1]?.label}</span>
+      </>
+    ) : (
+      legend.entries.map(entry => (
+        <span key={entry.label} className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded-sm border border-border" style={{ backgroundColor: entry.color }} />
+          {entry.label}
+        </span>
+      ))
+    )}
+  </div>
+);
+
+/**
+ * Switch between analytical overlays (overwrite heatmap, pixel age, placement
+ * type), with the active overlay's legend shown next to the button.
+ */
+export const AnalyticsOverlayPanel = ({ analytics }: AnalyticsOverlayPanelProps) => {
+  const { mode, legend, isLoading, loadProgress, error } = analytics;
+
+  return (
+    <div className="flex items-center gap-2">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant={mode ? "default" : "outline"} size="sm" className="h-8">
+            {isLoading ? <Loader2 className="h-3 w-3 mr-2 animate-spin" /> : <Activity className="h-3 w-3 mr-2" />}
+            {mode ? MODE_LABELS[mode] : "Overlays"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 space-y-3">
+          <div className="text-sm font-medium">Analytical overlays</div>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={mode ?? ""}
+            onValueChange={(value) => analytics.setMode(value ? value as AnalyticsMode : null)}
+            className="justify-start"
+          >
+            {(Object.keys(MODE_LABELS) as AnalyticsMode[]).map(option => (
+              <ToggleGroupItem key={option} value={option} className="h-8 text-xs">{MODE_LABELS[option]}</ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+
+          {mode === "heatmap" && (
+            <div className="space-y-1">
+              <Label className="text-xs">Overwrites within the last</Label>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={analytics.heatmapWindow}
+                onValueChange={(value) => value && analytics.setHeatmapWindow(value as HeatmapWindow)}
+                className="justify-start"
+              >
+                {(Object.keys(WINDOW_LABELS) as HeatmapWindow[]).map(option => (
+                  <ToggleGroupItem key={option} value={option} className="h-7 text-xs">{WINDOW_LABELS[option]}</ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Label className="text-xs w-14">Opacity</Label>
+            <Slider
+              min={0.1}
+              max={1}
+              step={0.05}
+              value={[analytics.opacity]}
+              onValueChange={([opacity]) => analytics.setOpacity(opacity)}
+              className="flex-1"
+            />
+            <span className="text-xs text-muted-foreground w-8 text-right">{Math.round(analytics.opacity * 100)}%</span>
+          </div>
+
+          {isLoading && (
+            <div className="space-y-1">
+              <Progress value={loadProgress * 100} className="h-2" />
+              <div className="text-xs text-muted-foreground">Loading placement events...</div>
+            </div>
+          )}
+          {error && <div className="text-xs text-destructive">{error}</div>}
+          {!mode && (
+            <div className="text-xs text-muted-foreground">
+              Overlays are computed from on-chain placement events and drawn over the live canvas.
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+      {legend && <LegendBar legend={legend} />}
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { GitCompare, Radio, Copy } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { formatDiffSummary } from "@/lib/canvasDiff";
+import { useCanvasDiff, type CanvasDiffView } from "@/hooks/useCanvasDiff";
+import type { TimeTravelTarget } from "@/hooks/useTimeTravel";
+
+type CanvasDiffControls = ReturnType<typeof useCanvasDiff>;
+
+interface CanvasDiffPanelProps {
+  canvasDiff: CanvasDiffControls;
+  // Called before a comparison starts, e.g. to close other history views
+  onBeforeCompare?: () => void;
+}
+
+type RangeKind = TimeTravelTarget['kind'];
+
+const formatAddress = (addr: string) => {
+  return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+};
+
+const formatBlock = (block: number | null) => (block === null ? "start" : `block ${block}`);
+
+const parseTarget = (kind: RangeKind, value: string): TimeTravelTarget | null => {
+  if (kind === 'block') {
+    const block = parseInt(value, 10);
+    return Number.isNaN(block) || block < 0 ? null : { kind, block };
+  }
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : { kind, time };
+};
+
+/**
+ * Compare the canvas between two blocks or dates: pick the range, then switch
+ * between the before/after boards and the changed pixels alone, with the
+ * addresses responsible listed by placement count.
+ */
+export const CanvasDiffPanel = ({ canvasDiff, onBeforeCompare }: CanvasDiffPanelProps) => {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const [rangeKind, setRangeKind] = useState<RangeKind>('block');
+  const [fromInput, setFromInput] = useState("");
+  const [toInput, setToInput] = useState("");
+
+  const from = parseTarget(rangeKind, fromInput);
+  const to = parseTarget(rangeKind, toInput);
+
+  const startCompare = () => {
+    if (!from || !to) return;
+    onBeforeCompare?.();
+    setIsPickerOpen(false);
+    canvasDiff.compare(from, to);
+  };
+
+  if (!canvasDiff.isOpen) {
+    return (
+      <Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="h-8">
+            <GitCompare className="h-3 w-3 mr-2" />
+            Compare
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 space-y-3">
+          <div className="text-sm font-medium">Compare the canvas between</div>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={rangeKind}
+            onValueChange={(value) => {
+              if (!value) return;
+              setRangeKind(value as RangeKind);
+              setFromInput("");
+              setToInput("");
+            }}
+            className="justify-start"
+          >
+            <ToggleGroupItem value="block" className="h-7 text-xs">Blocks</ToggleGroupItem>
+            <ToggleGroupItem value="time" className="h-7 text-xs">Dates</ToggleGroupItem>
+          </ToggleGroup>
+          {([
+            ["canvas-diff-from", "From", fromInput, setFromInput],
+            ["canvas-diff-to", "To", toInput, setToInput]
+          ] as const).map(([id, label, value, setValue]) => (
+            <div key={id} className="space-y-1">
+              <Label htmlFor={id} className="text-xs">{label}</Label>
+              <Input
+                id={id}
+                type={rangeKind === 'block' ? "number" : "datetime-local"}
+                min={rangeKind === 'block' ? 0 : undefined}
+                placeholder={rangeKind === 'block' ? "Block number" : undefined}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && startCompare()}
+                className="h-8 text-xs"
+              />
+            </div>
+          ))}
+          <Button size="sm" onClick={startCompare} disabled={!from || !to} className="w-full h-8 text-xs">
+            Compare
+          </Button>
+        </PopoverContent>
+      </Popover>
+    );
+  }
+
+  const { isLoading, loadProgress, error, diff, view, showHighlights, focusedAddress } = canvasDiff;
+
+  const copySummary = async () => {
+    if (!diff) return;
+    const summary = formatDiffSummary(diff, { from: formatBlock(diff.fromBlock), to: formatBlock(diff.toBlock) });
+    try {
+      await navigator.clipboard.writeText(summary);
+      toast.success("Summary copied to clipboard!");
+    } catch {
+      toast.error("Failed to copy summary");
+    }
+  };
+
+  return (
+    <div className="w-full p-3 bg-card/50 rounded-lg border space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+          <GitCompare className="h-4 w-4" />
+          {diff
+            ? <>Changes from {formatBlock(diff.fromBlock)} to {formatBlock(diff.toBlock)} • read-only</>
+            : 'Comparing canvas...'}
+        </div>
+        <Button size="sm" onClick={canvasDiff.close} className="h-8 text-xs">
+          <Radio className="h-3 w-3 mr-1" />
+          Back to live
+        </Button>
+      </div>
+
+      {isLoading && (
+        <div className="space-y-1">
+          <Progress value={loadProgress * 100} className="h-2" />
+          <div className="text-xs text-muted-foreground">Loading placement history... {Math.round(loadProgress * 100)}%</div>
+        </div>
+      )}
+
+      {error && <div className="text-xs text-destructive">{error}</div>}
+
+      {diff && (
+        <>
+          <div className="flex flex-wrap items-center gap-3">
+            <ToggleGroup
+              type="single"
+              size="sm"
+              variant="outline"
+              value={view}
+              onValueChange={(value) => value && canvasDiff.setView(value as CanvasDiffView)}
+            >
+              <ToggleGroupItem value="before" className="h-8 text-xs">Before</ToggleGroupItem>
+              <ToggleGroupItem value="after" className="h-8 text-xs">After</ToggleGroupItem>
+              <ToggleGroupItem value="changes" className="h-8 text-xs">Changes only</ToggleGroupItem>
+            </ToggleGroup>
+            <div className="flex items-center gap-2">
+              <Switch id="canvas-diff-highlight" checked={showHighlights} onCheckedChange={canvasDiff.setShowHighlights} />
+              <Label htmlFor="canvas-diff-highlight" className="text-xs">Highlight changes</Label>
+            </div>
+            <Button variant="outline" size="sm" onClick={copySummary} className="h-8 text-xs ml-auto">
+              <Copy className="h-3 w-3 mr-1" />
+              Copy summary
+            </Button>
+          </div>
+
+          <div className="text-xs text-muted-foreground">
+            {diff.placements.toLocaleString()} placements • {diff.changed.length.toLocaleString()} pixels changed • {diff.contributors.length.toLocaleString()} addresses
+          </div>
+
+          {diff.contributors.length > 0 && (
+            <div className="max-h-40 overflow-y-auto rounded border p-1">
+              {diff.contributors.map(entry => {
+                const isFocused = focusedAddress?.toLowerCase() === entry.address.toLowerCase();
+                return (
+                  <button
+                    key={entry.address}
+                    type="button"
+                    onClick={() => canvasDiff.setFocusedAddress(isFocused ? null : entry.address)}
+                    className={`w-full flex items-center justify-between gap-2 px-2 py-1 rounded text-xs hover:bg-muted ${isFocused ? 'bg-muted' : ''}`}
+                    title={isFocused ? "Show all changes" : "Highlight only this address"}
+                  >
+                    <span className="font-mono">{formatAddress(entry.address)}</span>
+                    <span className="text-muted-foreground">
+                      {entry.placements} placed • {entry.changedPixels} changed
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import { useEffect, useRef, useState } from "react";
+import { Map as MapIcon, ChevronDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { readRenderTheme, type PixelBackingStore } from "@/lib/canvasRenderer";
+
+const MINIMAP_SIZE = 160;
+
+interface CanvasMinimapProps {
+  store: PixelBackingStore;
+  // Bumped whenever texels in the store change
+  revision: number;
+  zoom: number;
+  pan: { x: number; y: number };
+  viewWidth: number;
+  viewHeight: number;
+  // Center the main view on a board coordinate
+  onNavigate: (boardX: number, boardY: number) => void;
+}
+
+/**
+ * Whole-board overview drawn from the shared backing store, with the visible
+ * area outlined. Click or drag on it to move the main view.
+ */
+export const CanvasMinimap = ({
+  store,
+  revision,
+  zoom,
+  pan,
+  viewWidth,
+  viewHeight,
+  onNavigate
+}: CanvasMinimapProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Downscaled board, redrawn only when texels change; the viewport rect is composited on top
+  const boardLayerRef = useRef<HTMLCanvasElement | null>(null);
+  const drawnRevisionRef = useRef<{ store: PixelBackingStore; revision: number } | null>(null);
+  const draggingRef = useRef(false);
+  const [isOpen, setIsOpen] = useState(true);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const frame = requestAnimationFrame(() => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+
+      if (!boardLayerRef.current) {
+        boardLayerRef.current = document.createElement('canvas');
+        boardLayerRef.current.width = MINIMAP_SIZE;
+        boardLayerRef.current.height = MINIMAP_SIZE;
+      }
+      const layer = boardLayerRef.current;
+      const drawn = drawnRevisionRef.current;
+      if (!drawn || drawn.store !== store || drawn.revision !== revision) {
+        const layerCtx = layer.getContext('2d');
+        if (!layerCtx) return;
+        layerCtx.clearRect(0, 0, MINIMAP_SIZE, MINIMAP_SIZE);
+        // Averaging while downscaling reads better than dropping texels
+        layerCtx.imageSmoothingEnabled = true;
+        layerCtx.imageSmoothingQuality = 'high';
+        layerCtx.drawImage(store.getSurface(), 0, 0, MINIMAP_SIZE, MINIMAP_SIZE);
+        drawnRevisionRef.current = { store, revision };
+      }
+
+      const theme = readRenderTheme();
+      ctx.fillStyle = theme.background;
+      ctx.fillRect(0, 0, MINIMAP_SIZE, MINIMAP_SIZE);
+      ctx.drawImage(layer, 0, 0);
+
+      if (!zoom || !viewWidth || !viewHeight) return;
+      const scale = MINIMAP_SIZE / store.size;
+      const left = Math.max(0, -pan.x / zoom) * scale;
+      const top = Math.max(0, -pan.y / zoom) * scale;
+      const right = Math.min(store.size, (viewWidth - pan.x) / zoom) * scale;
+      const bottom = Math.min(store.size, (viewHeight - pan.y) / zoom) * scale;
+      ctx.strokeStyle = theme.primary;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(left + 1, top + 1, Math.max(2, right - left - 2), Math.max(2, bottom - top - 2));
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [store, revision, zoom, pan, viewWidth, viewHeight, isOpen]);
+
+  const navigateTo = (clientX: number, clientY: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const rect = canvas.getBoundingClientRect();
+    if (!rect.width || !rect.height) return;
+    const boardX = ((clientX - rect.left) / rect.width) * store.size;
+    const boardY = ((clientY - rect.top) / rect.height) * store.size;
+    onNavigate(
+      Math.max(0, Math.min(store.size, boardX)),
+      Math.max(0, Math.min(store.size, boardY))
+    );
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    draggingRef.current = true;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    navigateTo(e.clientX, e.clientY);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!draggingRef.current) return;
+    navigateTo(e.clientX, e.clientY);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    draggingRef.current = false;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setIsOpen(true)}
+        className="absolute bottom-2 right-2 p-1 h-8 w-8 bg-card/90 backdrop-blur-sm"
+        title="Show minimap"
+      >
+        <MapIcon className="h-3 w-3" />
+      </Button>
+    );
+  }
+
+  return (
+    <div className="absolute bottom-2 right-2 bg-card/90 backdrop-blur-sm rounded-lg border border-border shadow-lg p-1">
+      <div className="flex items-center justify-between px-1 pb-1">
+        <span className="text-xs text-muted-foreground">Minimap</span>
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          className="text-muted-foreground hover:text-foreground"
+          title="Hide minimap"
+        >
+          <ChevronDown className="h-3 w-3" />
+        </button>
+      </div>
+      <canvas
+        ref={canvasRef}
+        width={MINIMAP_SIZE}
+        height={MINIMAP_SIZE}
+        className="block w-24 h-24 sm:w-40 sm:h-40 rounded border border-border cursor-pointer touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+    </div>
+  );
+};
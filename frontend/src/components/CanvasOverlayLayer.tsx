@@ -0,0 +1,39 @@
+import { useEffect, useRef } from "react";
+import type { CanvasOverlay, CanvasViewport } from "@/lib/canvasRenderer";
+
+interface CanvasOverlayLayerProps {
+  overlays: CanvasOverlay[];
+  viewport: CanvasViewport;
+}
+
+/**
+ * Transparent canvas stacked over the render surface for feature overlays.
+ * Shares the surface resolution and viewport, ignores pointer events, and
+ * redraws every overlay when either changes.
+ */
+export const CanvasOverlayLayer = ({ overlays, viewport }: CanvasOverlayLayerProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+      if (canvas.width !== viewport.width || canvas.height !== viewport.height) {
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+      }
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      for (const overlay of overlays) {
+        ctx.save();
+        overlay.draw(ctx, viewport);
+        ctx.restore();
+      }
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [overlays, viewport]);
+
+  if (!overlays.length) return null;
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />;
+};
@@ -3,41 +3,22 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Palette, Pipette, History } from "lucide-react";
+import { PALETTE_PRESET_COLORS as PRESET_COLORS, PALETTE_RGB_GROUPS as RGB_GROUPS } from "@/lib/colorPalettes";
+import { useColorHistory } from "@/hooks/useColorHistory";
 
 interface ColorPaletteProps {
   selectedColor: string;
   onColorSelect: (color: string) => void;
 }
 
-const PRESET_COLORS = [
-  '#ffffff', '#e5e5e5', '#c0c0c0', '#808080', '#404040', '#000000',
-  '#ff0000', '#ff8000', '#ffff00', '#80ff00', '#00ff00', '#00ff80',
-  '#00ffff', '#0080ff', '#0000ff', '#8000ff', '#ff00ff', '#ff0080',
-  '#800000', '#804000', '#808000', '#408000', '#008000', '#008040',
-  '#008080', '#004080', '#000080', '#400080', '#800080', '#800040'
-];
-
-const RGB_GROUPS = {
-  'Reds': ['#ff0000', '#ff3333', '#ff6666', '#ff9999', '#ffcccc'],
-  'Blues': ['#0000ff', '#3333ff', '#6666ff', '#9999ff', '#ccccff'],
-  'Greens': ['#00ff00', '#33ff33', '#66ff66', '#99ff99', '#ccffcc'],
-  'Purples': ['#800080', '#9933cc', '#b366ff', '#cc99ff', '#e5ccff'],
-  'Oranges': ['#ff8000', '#ff9933', '#ffb366', '#ffcc99', '#ffe5cc'],
-  'Cyans': ['#00ffff', '#33ffff', '#66ffff', '#99ffff', '#ccffff']
-};
-
 export const ColorPalette = ({ selectedColor, onColorSelect }: ColorPaletteProps) => {
   const [customColor, setCustomColor] = useState(selectedColor);
-  const [colorHistory, setColorHistory] = useState<string[]>([]);
+  const { colors: colorHistory, add: addToHistory } = useColorHistory();
   const [activeTab, setActiveTab] = useState<'preset' | 'custom' | 'groups'>('preset');
 
   const handleColorSelect = (color: string) => {
     onColorSelect(color);
-    
-    // Add to history if not already present
-    if (!colorHistory.includes(color)) {
-      setColorHistory(prev => [color, ...prev.slice(0, 9)]); // Keep last 10 colors
-    }
+    addToHistory(color);
   };
 
   const handleCustomColorChange = (value: string) => {
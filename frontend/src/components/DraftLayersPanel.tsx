@@ -0,0 +1,179 @@
+import { formatEther } from "ethers";
+import { PenLine, Plus, Eye, EyeOff, ArrowUp, ArrowDown, Eraser, Trash2, Send } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useDraftLayers } from "@/hooks/useDraftLayers";
+import { useRateLimitInfo } from "@/hooks/useRateLimitInfo";
+import { estimatePlan, formatDuration } from "@/lib/pixelPlan";
+import type { DraftPixel } from "@/lib/draftLayers";
+
+type DraftLayerControls = ReturnType<typeof useDraftLayers>;
+
+interface DraftLayersPanelProps {
+  layers: DraftLayerControls;
+  pixelPriceWei: bigint | null;
+  onCommit: (pixels: DraftPixel[]) => void;
+}
+
+const formatCost = (costWei: bigint | null) =>
+  costWei === null ? "—" : `${Number(formatEther(costWei)).toFixed(4)} IRYS`;
+
+/**
+ * Local draft layers: pick the layer the drawing tools paint into, toggle,
+ * fade, reorder and rename layers, and commit a layer's differences from
+ * the live canvas as placements.
+ */
+export const DraftLayersPanel = ({ layers, pixelPriceWei, onCommit }: DraftLayersPanelProps) => {
+  const { rateLimitInfo } = useRateLimitInfo();
+  const { layers: list, activeLayer, pendingByLayer } = layers;
+  const interval = rateLimitInfo.minPlacementInterval;
+
+  const commit = (layerId: string, name: string) => {
+    const pixels = pendingByLayer[layerId] ?? [];
+    if (!pixels.length) return;
+    const estimate = estimatePlan(pixels.length, pixelPriceWei, interval);
+    const intervals = Math.max(0, pixels.length - 1);
+    onCommit(pixels);
+    toast.success(`Committed "${name}": ${pixels.length.toLocaleString()} pixels`, {
+      description: `${formatCost(estimate.costWei)} • ${intervals.toLocaleString()} cooldown intervals (~${formatDuration(estimate.etaSeconds)})`
+    });
+  };
+
+  // Shown top-most first, like a layer list
+  const ordered = [...list].reverse();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8">
+          <PenLine className="h-3 w-3 mr-2" />
+          Drafts{activeLayer && `: ${activeLayer.name}`}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 max-h-[70vh] overflow-y-auto space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="text-sm font-medium">Draft layers</div>
+          <Button variant="outline" size="sm" onClick={() => layers.addLayer()} className="h-7 text-xs">
+            <Plus className="h-3 w-3 mr-1" />
+            New layer
+          </Button>
+        </div>
+
+        <div className="text-xs text-muted-foreground">
+          Drafts stay in this browser and cost nothing until committed.
+        </div>
+
+        {ordered.map((layer, i) => {
+          const pending = pendingByLayer[layer.id] ?? [];
+          const estimate = estimatePlan(pending.length, pixelPriceWei, interval);
+          const isActive = layer.id === activeLayer?.id;
+          return (
+            <div
+              key={layer.id}
+              className={`p-2 rounded-lg border space-y-2 ${isActive ? "border-primary" : ""}`}
+              onClick={() => !isActive && layers.setActiveLayerId(layer.id)}
+            >
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => layers.updateLayer(layer.id, { visible: !layer.visible })}
+                  className="p-1 h-7 w-7"
+                  title={layer.visible ? "Hide" : "Show"}
+                >
+                  {layer.visible ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3" />}
+                </Button>
+                <Input
+                  value={layer.name}
+                  onChange={(e) => layers.updateLayer(layer.id, { name: e.target.value })}
+                  className="h-7 text-xs flex-1"
+                  aria-label="Layer name"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => layers.moveLayer(layer.id, 1)}
+                  disabled={i === 0}
+                  className="p-1 h-7 w-7"
+                  title="Bring forward"
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => layers.moveLayer(layer.id, -1)}
+                  disabled={i === ordered.length - 1}
+                  className="p-1 h-7 w-7"
+                  title="Send backward"
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => layers.clearLayer(layer.id)}
+                  disabled={!layer.pixels.size}
+                  className="p-1 h-7 w-7"
+                  title="Clear layer (undoable)"
+                >
+                  <Eraser className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    layers.removeLayer(layer.id);
+                  }}
+                  className="p-1 h-7 w-7 text-destructive"
+                  title="Delete layer"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Label className="text-xs w-14">Opacity</Label>
+                <Slider
+                  min={0.05}
+                  max={1}
+                  step={0.05}
+                  value={[layer.opacity]}
+                  onValueChange={([opacity]) => layers.updateLayer(layer.id, { opacity })}
+                  className="flex-1"
+                />
+                <span className="text-xs text-muted-foreground w-8 text-right">{Math.round(layer.opacity * 100)}%</span>
+              </div>
+
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-xs text-muted-foreground">
+                  <div>{pending.length.toLocaleString()} of {layer.pixels.size.toLocaleString()} pixels differ</div>
+                  {pending.length > 0 && (
+                    <div>
+                      {formatCost(estimate.costWei)} • {Math.max(0, pending.length - 1).toLocaleString()} cooldowns
+                      {" "}(~{formatDuration(estimate.etaSeconds)})
+                    </div>
+                  )}
+                </div>
+                <Button
+                  size="sm"
+                  onClick={() => commit(layer.id, layer.name)}
+                  disabled={!pending.length}
+                  className="h-7 text-xs"
+                >
+                  <Send className="h-3 w-3 mr-1" />
+                  Commit
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </PopoverContent>
+    </Popover>
+  );
+};
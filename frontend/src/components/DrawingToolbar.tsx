@@ -0,0 +1,101 @@
+import { formatEther } from "ethers";
+import { MousePointer2, Pipette, Pencil, Slash, Square, Circle, PaintBucket, Type, Undo2, Redo2, Check, X } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useDrawingDraft } from "@/hooks/useDrawingDraft";
+import { useDraftLayers } from "@/hooks/useDraftLayers";
+import type { DrawingTool } from "@/lib/drawingTools";
+
+type DrawingDraftControls = ReturnType<typeof useDrawingDraft>;
+type DraftLayerControls = ReturnType<typeof useDraftLayers>;
+
+interface DrawingToolbarProps {
+  drawing: DrawingDraftControls;
+  layers: DraftLayerControls;
+  pixelPriceWei: bigint | null;
+  onCommit: (pixels: { x: number; y: number; color: string }[]) => void;
+}
+
+const TOOLS: { value: DrawingTool; label: string; icon: LucideIcon; iconClassName?: string }[] = [
+  { value: "place", label: "Place single pixels", icon: MousePointer2 },
+  { value: "eyedropper", label: "Pick a color from the canvas (or Alt+click)", icon: Pipette },
+  { value: "pencil", label: "Pencil", icon: Pencil },
+  { value: "line", label: "Line", icon: Slash },
+  { value: "rect", label: "Rectangle", icon: Square },
+  { value: "rect-filled", label: "Filled rectangle", icon: Square, iconClassName: "fill-current" },
+  { value: "ellipse", label: "Ellipse", icon: Circle },
+  { value: "fill", label: "Flood fill", icon: PaintBucket },
+  { value: "text", label: "Text", icon: Type }
+];
+
+/**
+ * Tool picker for the canvas plus the draft summary: how many pixels the
+ * active draft layer would change, what they cost, and commit/discard, with
+ * undo/redo for that layer next to the tools.
+ */
+export const DrawingToolbar = ({ drawing, layers, pixelPriceWei, onCommit }: DrawingToolbarProps) => {
+  const { pendingPixels, draftSize } = drawing;
+  const cost = pixelPriceWei === null ? null : pixelPriceWei * BigInt(pendingPixels.length);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <ToggleGroup
+        type="single"
+        size="sm"
+        variant="outline"
+        value={drawing.tool}
+        onValueChange={(value) => value && drawing.setTool(value as DrawingTool)}
+      >
+        {TOOLS.map(({ value, label, icon: Icon, iconClassName }) => (
+          <ToggleGroupItem key={value} value={value} className="h-8 w-8 p-0" title={label} aria-label={label}>
+            <Icon className={`h-3 w-3 ${iconClassName ?? ""}`} />
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      <div className="flex gap-1">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={layers.undo}
+          disabled={!layers.canUndo}
+          className="p-1 h-8 w-8"
+          title="Undo (active layer)"
+        >
+          <Undo2 className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={layers.redo}
+          disabled={!layers.canRedo}
+          className="p-1 h-8 w-8"
+          title="Redo (active layer)"
+        >
+          <Redo2 className="h-3 w-3" />
+        </Button>
+      </div>
+      {draftSize > 0 && (
+        <div className="flex items-center gap-2 text-xs">
+          <span className="text-muted-foreground">
+            {pendingPixels.length.toLocaleString()} pixels
+            {cost !== null && ` • ${Number(formatEther(cost)).toFixed(4)} IRYS`}
+          </span>
+          <Button
+            size="sm"
+            onClick={() => onCommit(drawing.commit())}
+            disabled={!pendingPixels.length}
+            className="h-8 text-xs"
+          >
+            <Check className="h-3 w-3 mr-1" />
+            Commit
+          </Button>
+          <Button variant="outline" size="sm" onClick={drawing.discard} className="h-8 text-xs">
+            <X className="h-3 w-3 mr-1" />
+            Discard
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -4,18 +4,13 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Palette } from "lucide-react";
 import { toast } from "sonner";
+import { BASIC_PRESET_COLORS as PRESET_COLORS } from "@/lib/colorPalettes";
 
 interface EnhancedColorPickerProps {
   selectedColor: string;
   onColorSelect: (color: string) => void;
 }
 
-// 기본 프리셋 색상
-const PRESET_COLORS = [
-  '#ffffff', '#000000', '#ff0000', '#00ff00', '#0000ff', '#ffff00', 
-  '#ff00ff', '#00ffff', '#ff8000', '#8000ff', '#80ff00', '#ff0080'
-];
-
 const MAX_CUSTOM_PRESETS = 12;
 
 export const EnhancedColorPicker = ({ selectedColor, onColorSelect }: EnhancedColorPickerProps) => {
@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect, useCallback } from "react";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -9,14 +9,48 @@ import {
   RotateCcw, 
   Move, 
   Save, 
-  Share2,
+  Link2,
   Download,
   Grid,
   Eye,
-  EyeOff
+  EyeOff,
+  Maximize,
+  X
 } from "lucide-react";
 import { toast } from "sonner";
 import { useIrys } from "@/hooks/useIrys";
+import { CanvasMinimap } from "@/components/CanvasMinimap";
+import { PixelInspector } from "@/components/PixelInspector";
+import { ExportDialog } from "@/components/ExportDialog";
+import { CanvasOverlayLayer } from "@/components/CanvasOverlayLayer";
+import { useCanvasViewport } from "@/hooks/useCanvasViewport";
+import { useViewportUrl } from "@/hooks/useViewportUrl";
+import {
+  DEFAULT_ZOOM,
+  buildViewportUrl,
+  formatZoom,
+  getViewCenter,
+  getWheelZoomFactor,
+  screenToBoard
+} from "@/lib/canvasViewport";
+import { TouchGestureController, type TouchGestureHandlers } from "@/lib/canvasGestures";
+import {
+  PixelBackingStore,
+  readRenderTheme,
+  getVisibleBounds,
+  type CanvasOverlay,
+  type CanvasViewport,
+  type PixelChangeSet,
+  type PixelCoord,
+  type PixelRegion
+} from "@/lib/canvasRenderer";
+import {
+  createRenderSurface,
+  type CanvasFrame,
+  type CanvasRenderMode,
+  type CanvasRenderSurface
+} from "@/lib/canvasSurfaces";
+import type { CanvasDrawingHandlers } from "@/lib/drawingTools";
 
 interface Pixel {
   x: number;
@@ -32,34 +66,40 @@ interface EnhancedCanvasProps {
   selectedColor: string;
   onPixelPlace: (pixel: Pixel) => void;
   pixels: Pixel[];
+  pixelChanges?: PixelChangeSet | null; // incremental updates from sync, repainted as dirty regions
+  boardVersion?: number; // bumped when `pixels` is replaced rather than patched by pixelChanges; when set, only a new version triggers a full reconcile
   onCanvasSave?: (canvasData: string) => void;
   canvasSize: { width: number; height: number };
   pixelPrice: number;
+  renderMode?: CanvasRenderMode; // 'worker' renders in a Web Worker via OffscreenCanvas when supported
+  syncedBlock?: number | null; // recorded in exported image metadata
+  readOnly?: boolean; // disables placement, e.g. while replaying history
+  overlays?: CanvasOverlay[]; // feature layers drawn above the board (diff highlights, ...)
+  drawing?: CanvasDrawingHandlers | null; // active drawing tool: left-drag draws instead of panning
+  isPickingColor?: boolean; // eyedropper mode: clicks pick a color instead of placing (Alt+click always picks)
+  onColorPick?: (color: string) => void;
 }
 
-// Utility function to safely get CSS variables
-const getCSSVariable = (variableName: string, fallback: string): string => {
-  try {
-    const value = getComputedStyle(document.documentElement)
-      .getPropertyValue(variableName)
-      .trim();
-    return value || fallback;
-  } catch {
-    return fallback;
-  }
-};
+const NO_OVERLAYS: CanvasOverlay[] = [];
 
 export const EnhancedPixelCanvas = ({ 
   selectedColor, 
   onPixelPlace, 
   pixels,
+  pixelChanges,
+  boardVersion,
   onCanvasSave,
   canvasSize,
-  pixelPrice
+  pixelPrice,
+  renderMode = 'main',
+  syncedBlock = null,
+  readOnly = false,
+  overlays = NO_OVERLAYS,
+  drawing = null,
+  isPickingColor = false,
+  onColorPick
 }: EnhancedCanvasProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [zoom, setZoom] = useState(8);
-  const [pan, setPan] = useState({ x: 0, y: 0 });
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [dragDistance, setDragDistance] = useState(0);
@@ -68,188 +108,127 @@ export const EnhancedPixelCanvas = ({
   const [showGrid, setShowGrid] = useState(true);
   const [isPreviewMode, setIsPreviewMode] = useState(false);
   const [hasMovedDuringDrag, setHasMovedDuringDrag] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  // Pixel the inspector is pinned to (long-press / right-click); otherwise it follows the hover
+  const [pinnedPixel, setPinnedPixel] = useState<{ x: number, y: number } | null>(null);
+  // A drawing tool stroke is in progress (mouse held down)
+  const isStrokingRef = useRef(false);
   const { uploadPixelData, isUploading, isConnected } = useIrys();
   
   const CANVAS_SIZE = Math.max(1, Math.min(10000, Math.floor(canvasSize.width)));
-  const MIN_ZOOM = 2;
-  const MAX_ZOOM = 20;
 
-  const drawCanvas = useCallback(() => {
+  // Backing store holding the whole board as a texture; rebuilt only when the size changes
+  const store = useMemo(() => new PixelBackingStore(CANVAS_SIZE), [CANVAS_SIZE]);
+  const appliedPixelsRef = useRef<{
+    store: PixelBackingStore;
+    surface: CanvasRenderSurface;
+    pixels: Pixel[];
+    boardVersion: number | undefined;
+  } | null>(null);
+  const appliedChangesRef = useRef<PixelChangeSet | null>(null);
+  // Canvas element key: bumped when an element was handed to a worker and can't be reused
+  const [canvasKey, setCanvasKey] = useState(0);
+  const [surface, setSurface] = useState<CanvasRenderSurface | null>(null);
+  const [surfaceSize, setSurfaceSize] = useState({ width: 0, height: 0 });
+  // Bumped when texels change so secondary views of the store (minimap) redraw
+  const [storeRevision, setStoreRevision] = useState(0);
+  const {
+    zoom,
+    pan,
+    minZoom,
+    maxZoom,
+    hasNavigated,
+    zoomBy,
+    panBy,
+    centerView,
+    fitToScreen,
+    resetView: resetViewport
+  } = useCanvasViewport(CANVAS_SIZE, surfaceSize.width, surfaceSize.height);
+  useViewportUrl({
+    boardSize: CANVAS_SIZE,
+    zoom,
+    pan,
+    width: surfaceSize.width,
+    height: surfaceSize.height,
+    hasNavigated,
+    centerView
+  });
+  // Preview mode and read-only views (history playback) never place pixels
+  const isViewOnly = isPreviewMode || readOnly;
+  const activeDrawing = isViewOnly ? null : drawing;
+  const inspectedPixel = pinnedPixel ?? (isViewOnly ? null : hoveredPixel);
+  // Target of "copy link to this pixel"
+  const lastPointedPixelRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Save the initial canvas state
-    ctx.save();
-
-    // Clear canvas completely
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    
-    // Set default background for empty pixels
-    const canvasBgColor = getCSSVariable('--canvas-bg', '0 0% 99%');
-    ctx.fillStyle = `hsl(${canvasBgColor})`;
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    
-    // Reset fill style after background
-    ctx.fillStyle = '#000000';
-
-    const pixelSize = zoom;
-    const startX = Math.max(0, Math.floor(-pan.x / pixelSize));
-    const startY = Math.max(0, Math.floor(-pan.y / pixelSize));
-    const endX = Math.min(CANVAS_SIZE, Math.ceil((canvas.width - pan.x) / pixelSize));
-    const endY = Math.min(CANVAS_SIZE, Math.ceil((canvas.height - pan.y) / pixelSize));
-
-    // Draw pixels first (fully connected)
-    pixels.forEach(pixel => {
-      const xPos = pixel.x * pixelSize + pan.x;
-      const yPos = pixel.y * pixelSize + pan.y;
-      
-      // Check if pixel is visible in viewport
-      if (xPos >= -pixelSize && xPos <= canvas.width && 
-          yPos >= -pixelSize && yPos <= canvas.height) {
-        
-        // Save context state before drawing this pixel
-        ctx.save();
-        
-        // Draw main pixel (completely fills grid cell)
-        ctx.fillStyle = pixel.color;
-        ctx.fillRect(xPos, yPos, pixelSize, pixelSize);
-        
-        // Add subtle border for Irys-stored pixels (only in high zoom)
-        if (pixel.irysId && !isPreviewMode && zoom >= 8) {
-          const primaryColor = getCSSVariable('--primary', '166 89% 75%');
-          ctx.strokeStyle = `hsl(${primaryColor})`;
-          ctx.lineWidth = 1;
-          ctx.strokeRect(xPos + 0.5, yPos + 0.5, pixelSize - 1, pixelSize - 1);
-        }
-        
-        // Restore context state after drawing this pixel
-        ctx.restore();
-      }
-    });
-
-    // Draw grid on top of pixels (only at high zoom levels)
-    if (showGrid && !isPreviewMode && zoom >= 6) {
-      ctx.save();
-      
-      const gridColor = getCSSVariable('--canvas-grid', '180 6% 90%');
-      ctx.strokeStyle = `hsl(${gridColor})`;
-      ctx.lineWidth = zoom >= 12 ? 0.8 : 0.4;
-      ctx.globalAlpha = zoom >= 12 ? 0.3 : 0.2;
-      
-      // Draw vertical grid lines
-      for (let x = startX; x <= endX; x++) {
-        const xPos = x * pixelSize + pan.x;
-        if (xPos >= 0 && xPos <= canvas.width) {
-          ctx.beginPath();
-          ctx.moveTo(xPos, Math.max(0, startY * pixelSize + pan.y));
-          ctx.lineTo(xPos, Math.min(canvas.height, endY * pixelSize + pan.y));
-          ctx.stroke();
-        }
-      }
-      
-      // Draw horizontal grid lines
-      for (let y = startY; y <= endY; y++) {
-        const yPos = y * pixelSize + pan.y;
-        if (yPos >= 0 && yPos <= canvas.height) {
-          ctx.beginPath();
-          ctx.moveTo(Math.max(0, startX * pixelSize + pan.x), yPos);
-          ctx.lineTo(Math.min(canvas.width, endX * pixelSize + pan.x), yPos);
-          ctx.stroke();
-        }
-      }
-      
-      ctx.restore(); // Restore grid context state
+    const created = createRenderSurface(canvas, store, renderMode);
+    if (!created) {
+      setCanvasKey(key => key + 1);
+      return;
     }
+    setSurface(created);
+    return () => {
+      created.dispose();
+      setSurface(null);
+    };
+  }, [store, renderMode, canvasKey]);
+
+  const viewport = useMemo((): CanvasViewport => ({
+    zoom,
+    panX: pan.x,
+    panY: pan.y,
+    width: surfaceSize.width,
+    height: surfaceSize.height
+  }), [zoom, pan, surfaceSize]);
+
+  const getFrame = useCallback((): CanvasFrame => {
+    const showOverlays = !isPreviewMode;
+    return {
+      viewport,
+      options: {
+        showGrid: showGrid && showOverlays,
+        showIrysBorders: showOverlays,
+        hover: hoveredPixel && showOverlays && !isDragging
+          ? { x: hoveredPixel.x, y: hoveredPixel.y, color: selectedColor }
+          : null,
+      },
+    };
+  }, [viewport, hoveredPixel, selectedColor, showGrid, isPreviewMode, isDragging]);
 
-    // Draw hover effect (improved accuracy and visibility)
-    if (hoveredPixel && zoom >= 4 && !isPreviewMode && !isDragging) {
-      const xPos = hoveredPixel.x * pixelSize + pan.x;
-      const yPos = hoveredPixel.y * pixelSize + pan.y;
-      
-      // Only show if the hovered pixel is within visible area
-      if (xPos >= -pixelSize && xPos <= canvas.width && 
-          yPos >= -pixelSize && yPos <= canvas.height) {
-        
-        // Save current state
-        ctx.save();
-        
-        // Preview the selected color with proper transparency
-        ctx.globalAlpha = 0.7;
-        ctx.fillStyle = selectedColor;
-        ctx.fillRect(xPos, yPos, pixelSize, pixelSize);
-        
-        // Reset alpha for border
-        ctx.globalAlpha = 1.0;
-        
-        // Draw animated hover border
-        const borderWidth = Math.max(1, Math.min(3, pixelSize / 6));
-        const primaryColor = getCSSVariable('--primary', '166 89% 75%');
-        ctx.strokeStyle = `hsl(${primaryColor})`;
-        ctx.lineWidth = borderWidth;
-        ctx.strokeRect(
-          xPos + borderWidth/2, 
-          yPos + borderWidth/2, 
-          pixelSize - borderWidth, 
-          pixelSize - borderWidth
-        );
-        
-        // Add inner highlight for high zoom levels
-        if (zoom >= 8) {
-          ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
-          ctx.lineWidth = 1;
-          const innerOffset = borderWidth + 1;
-          ctx.strokeRect(
-            xPos + innerOffset, 
-            yPos + innerOffset, 
-            pixelSize - 2 * innerOffset, 
-            pixelSize - 2 * innerOffset
-          );
-        }
-        
-        // Restore state
-        ctx.restore();
-      }
-    }
-    
-    // Restore the initial canvas state
-    ctx.restore();
-  }, [zoom, pan, pixels, hoveredPixel, selectedColor, showGrid, isPreviewMode, isDragging]);
+  const drawCanvas = useCallback(() => {
+    if (!surface || !surfaceSize.width) return;
+    surface.render(getFrame(), readRenderTheme());
+  }, [surface, surfaceSize, getFrame]);
 
-  const getPixelCoords = (clientX: number, clientY: number) => {
+  // Client (CSS) coordinates to canvas surface pixels
+  const toSurfacePoint = useCallback((clientX: number, clientY: number) => {
     const canvas = canvasRef.current;
     if (!canvas) return null;
-    
     const rect = canvas.getBoundingClientRect();
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
-    
-    // Get canvas coordinates
-    const canvasX = (clientX - rect.left) * scaleX;
-    const canvasY = (clientY - rect.top) * scaleY;
-    
-    // Convert to pixel grid coordinates
-    const pixelX = Math.floor((canvasX - pan.x) / zoom);
-    const pixelY = Math.floor((canvasY - pan.y) / zoom);
-    
-    // Ensure coordinates are within canvas bounds
-    if (pixelX >= 0 && pixelX < CANVAS_SIZE && pixelY >= 0 && pixelY < CANVAS_SIZE) {
-      return { x: pixelX, y: pixelY };
-    }
-    return null;
+    if (!rect.width || !rect.height) return null;
+    return {
+      x: (clientX - rect.left) * (surfaceSize.width / rect.width),
+      y: (clientY - rect.top) * (surfaceSize.height / rect.height),
+    };
+  }, [surfaceSize]);
+
+  const getPixelCoords = (clientX: number, clientY: number) => {
+    const point = toSurfacePoint(clientX, clientY);
+    if (!point) return null;
+    return screenToBoard(point, { zoom, pan }, CANVAS_SIZE);
   };
 
-  const handleCanvasClick = async (e: React.MouseEvent) => {
-    // Prevent pixel placement if has moved during drag
-    if (isPreviewMode || hasMovedDuringDrag) {
-      e.preventDefault();
-      e.stopPropagation();
-      return;
-    }
-    
-    const coords = getPixelCoords(e.clientX, e.clientY);
+  // Drag deltas arrive in CSS pixels; pan is in surface pixels
+  const panByClientDelta = (deltaX: number, deltaY: number) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    const scale = rect && rect.width ? surfaceSize.width / rect.width : 1;
+    panBy(deltaX * scale, deltaY * scale);
+  };
+
+  const placePixelAt = async (clientX: number, clientY: number) => {
+    const coords = getPixelCoords(clientX, clientY);
     if (coords) {
       // Competitive mode: always allow overwrite
       const newPixel: Pixel = {
@@ -270,6 +249,39 @@ export const EnhancedPixelCanvas = ({
     }
   };
 
+  const endStroke = () => {
+    if (!isStrokingRef.current) return;
+    isStrokingRef.current = false;
+    drawing?.end();
+  };
+
+  const pickColorAt = (clientX: number, clientY: number) => {
+    const coords = getPixelCoords(clientX, clientY);
+    if (!coords || !onColorPick) return;
+    const color = store.getColor(coords.x, coords.y);
+    if (color) {
+      onColorPick(color);
+    } else {
+      toast.info(`Pixel (${coords.x}, ${coords.y}) is empty`);
+    }
+  };
+
+  const handleCanvasClick = async (e: React.MouseEvent) => {
+    // Picking works in read-only views too, so colors can be taken from history
+    if ((isPickingColor || e.altKey) && !hasMovedDuringDrag) {
+      pickColorAt(e.clientX, e.clientY);
+      return;
+    }
+    // Prevent pixel placement if has moved during drag; drawing tools handle their own strokes
+    if (isViewOnly || hasMovedDuringDrag || activeDrawing) {
+      e.preventDefault();
+      e.stopPropagation();
+      return;
+    }
+    
+    await placePixelAt(e.clientX, e.clientY);
+  };
+
   // Mouse move for hover effects (separate from drag)
   const handleMouseMove = (e: React.MouseEvent) => {
     if (isDragging) {
@@ -285,23 +297,14 @@ export const EnhancedPixelCanvas = ({
         setHasMovedDuringDrag(true);
       }
       
-      setPan(prev => {
-        // Pan limits: prevent moving beyond (0,0)
-        const maxPanX = 0;
-        const maxPanY = 0;
-        const minPanX = -(CANVAS_SIZE * zoom - (canvasRef.current?.width || 0));
-        const minPanY = -(CANVAS_SIZE * zoom - (canvasRef.current?.height || 0));
-        
-        return {
-          x: Math.max(minPanX, Math.min(maxPanX, prev.x + deltaX)),
-          y: Math.max(minPanY, Math.min(maxPanY, prev.y + deltaY))
-        };
-      });
+      panByClientDelta(deltaX, deltaY);
       setDragStart({ x: e.clientX, y: e.clientY });
-    } else if (!isPreviewMode) {
+    } else if (!isViewOnly) {
       // Handle hover effects when not dragging
       const coords = getPixelCoords(e.clientX, e.clientY);
       // Only update if coordinates actually changed (performance optimization)
+      if (coords) lastPointedPixelRef.current = coords;
+      if (coords && isStrokingRef.current) activeDrawing?.move(coords);
       if (!hoveredPixel || !coords || 
           hoveredPixel.x !== coords.x || hoveredPixel.y !== coords.y) {
         setHoveredPixel(coords);
@@ -310,59 +313,24 @@ export const EnhancedPixelCanvas = ({
     }
   };
 
-  // Touch move for mobile dragging
-  const handleTouchMove = (e: React.TouchEvent) => {
-    if (e.touches.length === 1 && isDragging) {
-      const touch = e.touches[0];
-      const deltaX = touch.clientX - dragStart.x;
-      const deltaY = touch.clientY - dragStart.y;
-      
-      const distance = Math.sqrt(deltaX * deltaX + deltaY * deltaY);
-      setDragDistance(distance);
-      
-      if (distance > 1) {
-        setHasMovedDuringDrag(true);
-      }
-      
-      setPan(prev => {
-        const maxPanX = 0;
-        const maxPanY = 0;
-        const minPanX = -(CANVAS_SIZE * zoom - (canvasRef.current?.width || 0));
-        const minPanY = -(CANVAS_SIZE * zoom - (canvasRef.current?.height || 0));
-        
-        return {
-          x: Math.max(minPanX, Math.min(maxPanX, prev.x + deltaX)),
-          y: Math.max(minPanY, Math.min(maxPanY, prev.y + deltaY))
-        };
-      });
-      setDragStart({ x: touch.clientX, y: touch.clientY });
-    }
-  };
-
-  // Touch start
-  const handleTouchStart = (e: React.TouchEvent) => {
-    if (e.touches.length === 1) {
-      const touch = e.touches[0];
-      setIsDragging(true);
-      setHasMovedDuringDrag(false);
-      setDragStart({ x: touch.clientX, y: touch.clientY });
-      setDragDistance(0);
-      // Clear hover on touch start
-      setHoveredPixel(null);
-    }
-  };
-
-  // Touch end
-  const handleTouchEnd = (e: React.TouchEvent) => {
-    if (e.touches.length === 0) {
-      setIsDragging(false);
-      // Reset the move flag after a delay to allow click handler to read it
-      setTimeout(() => setHasMovedDuringDrag(false), 100);
+  // Right-click pins the inspector on a pixel (long-press does the same on touch)
+  const handleContextMenu = (e: React.MouseEvent) => {
+    e.preventDefault();
+    const coords = getPixelCoords(e.clientX, e.clientY);
+    if (coords) {
+      lastPointedPixelRef.current = coords;
+      setPinnedPixel(coords);
     }
   };
 
   const handleMouseDown = (e: React.MouseEvent) => {
-    if (e.button === 0) {
+    if (e.button === 0 && activeDrawing && !e.altKey) {
+      const coords = getPixelCoords(e.clientX, e.clientY);
+      if (coords) {
+        isStrokingRef.current = true;
+        activeDrawing.begin(coords);
+      }
+    } else if (e.button === 0) {
       setIsDragging(true);
       setHasMovedDuringDrag(false);
       setDragStart({ x: e.clientX, y: e.clientY });
@@ -371,12 +339,14 @@ export const EnhancedPixelCanvas = ({
   };
 
   const handleMouseUp = () => {
+    endStroke();
     setIsDragging(false);
     // Reset the move flag after a delay to allow click handler to read it
     setTimeout(() => setHasMovedDuringDrag(false), 100);
   };
 
   const handleMouseLeave = () => {
+    endStroke();
     setHoveredPixel(null);
     setIsDragging(false);
     setHasMovedDuringDrag(false);
@@ -389,50 +359,49 @@ export const EnhancedPixelCanvas = ({
     }
   };
 
-  const handleWheel = (e: React.WheelEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    const delta = e.deltaY > 0 ? -1 : 1;
-    const newZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom + delta));
-    setZoom(newZoom);
-  };
-
   const resetView = () => {
-    setZoom(8);
-    setPan({ x: 0, y: 0 });
+    resetViewport();
     toast.success("View reset");
   };
 
   const saveCanvas = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    
-    const dataURL = canvas.toDataURL('image/png');
-    onCanvasSave?.(dataURL);
-    
-    // Create download link
-    const link = document.createElement('a');
-    link.download = `pixel-canvas-${Date.now()}.png`;
-    link.href = dataURL;
-    link.click();
-    
-    toast.success("Canvas saved!");
+    setIsExportOpen(true);
   };
 
-  const shareCanvas = async () => {
-    if (navigator.share) {
-      try {
-        await navigator.share({
-          title: 'My Pixel Art',
-          text: 'Check out my pixel art creation!',
-          url: window.location.href
-        });
-      } catch (error) {
-        toast.error("Sharing failed");
+  const handleExported = (blob: Blob) => {
+    if (!onCanvasSave) return;
+    const reader = new FileReader();
+    reader.onload = () => onCanvasSave(reader.result as string);
+    reader.readAsDataURL(blob);
+  };
+
+  // Board area on screen, offered as an export region
+  const viewRegion = useMemo((): PixelRegion => {
+    const { startX, startY, endX, endY } = getVisibleBounds(viewport, CANVAS_SIZE);
+    return { x: startX, y: startY, width: Math.max(1, endX - startX), height: Math.max(1, endY - startY) };
+  }, [viewport, CANVAS_SIZE]);
+
+  // Link to the last pixel pointed at (hover or tap), else to the center of the view
+  const copyPixelLink = async () => {
+    const center = getViewCenter({ zoom, pan }, surfaceSize.width, surfaceSize.height);
+    const target = lastPointedPixelRef.current ?? {
+      x: Math.max(0, Math.min(CANVAS_SIZE - 1, Math.floor(center.x))),
+      y: Math.max(0, Math.min(CANVAS_SIZE - 1, Math.floor(center.y)))
+    };
+    const url = buildViewportUrl({ x: target.x, y: target.y, zoom: Math.max(zoom, DEFAULT_ZOOM) });
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success(`Link to pixel (${target.x}, ${target.y}) copied to clipboard!`);
+    } catch (error) {
+      if (navigator.share) {
+        try {
+          await navigator.share({ title: 'r/Place on Irys', url });
+          return;
+        } catch {
+          // fall through to the error toast
+        }
       }
-    } else {
-      navigator.clipboard.writeText(window.location.href);
-      toast.success("Canvas URL copied to clipboard!");
+      toast.error("Failed to copy link");
     }
   };
 
@@ -462,10 +431,8 @@ export const EnhancedPixelCanvas = ({
       
       const size = Math.max(400, maxSize); // min 400px
       
-      // Square canvas resolution
-      canvas.width = size;
-      canvas.height = size;
-      drawCanvas();
+      // Square canvas resolution (applied by the render surface)
+      setSurfaceSize(prev => (prev.width === size && prev.height === size ? prev : { width: size, height: size }));
     };
 
     resizeCanvas();
@@ -475,12 +442,12 @@ export const EnhancedPixelCanvas = ({
     // Add wheel event listener with passive: false to ensure preventDefault works
     const canvasContainer = canvas.parentElement;
     if (canvasContainer) {
+      // Continuous zoom anchored at the cursor (mouse wheel and trackpad pinch)
       const wheelHandler = (e: WheelEvent) => {
         e.preventDefault();
         e.stopPropagation();
-        const delta = e.deltaY > 0 ? -1 : 1;
-        const newZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom + delta));
-        setZoom(newZoom);
+        const anchor = toSurfacePoint(e.clientX, e.clientY) ?? undefined;
+        zoomBy(getWheelZoomFactor(e.deltaY, e.deltaMode, e.ctrlKey), anchor);
       };
       
       canvasContainer.addEventListener('wheel', wheelHandler, { passive: false });
@@ -496,8 +463,124 @@ export const EnhancedPixelCanvas = ({
       window.removeEventListener('resize', resizeCanvas);
       window.removeEventListener('orientationchange', resizeCanvas);
     };
-  }, [drawCanvas, zoom]);
+  }, [zoomBy, toSurfacePoint, canvasKey]);
+
+  // Touch gestures go through native listeners so touchend can suppress the emulated click
+  const gestureHandlersRef = useRef<TouchGestureHandlers | null>(null);
+  gestureHandlersRef.current = {
+    onPan: panByClientDelta,
+    onPinch: (scale, center) => zoomBy(scale, toSurfacePoint(center.x, center.y) ?? undefined, false),
+    onTap: (point) => {
+      const coords = getPixelCoords(point.x, point.y);
+      if (coords) lastPointedPixelRef.current = coords;
+      if (isPickingColor) {
+        pickColorAt(point.x, point.y);
+      } else if (activeDrawing) {
+        // Touch drags pan the board, so a tap is a single-point stroke
+        if (coords) {
+          activeDrawing.begin(coords);
+          activeDrawing.end();
+        }
+      } else if (!isViewOnly) {
+        placePixelAt(point.x, point.y);
+      }
+    },
+    onLongPress: (point) => {
+      const coords = getPixelCoords(point.x, point.y);
+      if (coords) {
+        lastPointedPixelRef.current = coords;
+        setPinnedPixel(coords);
+      }
+    },
+    onActiveChange: (active) => {
+      setIsDragging(active);
+      if (active) setHoveredPixel(null);
+    }
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const gestures = new TouchGestureController({
+      onPan: (dx, dy) => gestureHandlersRef.current?.onPan(dx, dy),
+      onPinch: (scale, center) => gestureHandlersRef.current?.onPinch(scale, center),
+      onTap: (point) => gestureHandlersRef.current?.onTap(point),
+      onLongPress: (point) => gestureHandlersRef.current?.onLongPress?.(point),
+      onActiveChange: (active) => gestureHandlersRef.current?.onActiveChange?.(active)
+    });
+
+    const onTouchStart = (e: TouchEvent) => {
+      e.preventDefault();
+      gestures.handleTouchStart(e.changedTouches, e.timeStamp);
+    };
+    const onTouchMove = (e: TouchEvent) => {
+      e.preventDefault();
+      gestures.handleTouchMove(e.changedTouches, e.timeStamp);
+    };
+    const onTouchEnd = (e: TouchEvent) => {
+      e.preventDefault();
+      gestures.handleTouchEnd(e.changedTouches, e.timeStamp);
+    };
+    const onTouchCancel = (e: TouchEvent) => {
+      gestures.handleTouchCancel(e.changedTouches);
+    };
+
+    canvas.addEventListener('touchstart', onTouchStart, { passive: false });
+    canvas.addEventListener('touchmove', onTouchMove, { passive: false });
+    canvas.addEventListener('touchend', onTouchEnd, { passive: false });
+    canvas.addEventListener('touchcancel', onTouchCancel);
+
+    return () => {
+      gestures.dispose();
+      canvas.removeEventListener('touchstart', onTouchStart);
+      canvas.removeEventListener('touchmove', onTouchMove);
+      canvas.removeEventListener('touchend', onTouchEnd);
+      canvas.removeEventListener('touchcancel', onTouchCancel);
+    };
+  }, [canvasKey]);
+
+  useEffect(() => {
+    if (surface && surfaceSize.width) {
+      surface.resize(surfaceSize.width, surfaceSize.height);
+    }
+  }, [surface, surfaceSize]);
+
+  // Incremental change sets only touch their own texels and screen rectangles
+  useEffect(() => {
+    // Compared by identity: change sets from different sources (live sync, replay) have their own seq
+    if (!pixelChanges || appliedChangesRef.current === pixelChanges) return;
+    appliedChangesRef.current = pixelChanges;
+    const touched: PixelCoord[] = [];
+    for (const pixel of [...pixelChanges.added, ...pixelChanges.changed]) {
+      if (store.setPixel(pixel.x, pixel.y, pixel.color, !!pixel.irysId)) {
+        touched.push({ x: pixel.x, y: pixel.y });
+      }
+    }
+    surface?.invalidatePixels(touched);
+    if (touched.length) setStoreRevision(revision => revision + 1);
+  }, [store, surface, pixelChanges]);
+
+  // Reconcile texels with the full pixel list when the board was replaced
+  // (load, reorg, history seek) or the target is new. With a board version,
+  // updates in between arrive as change sets and are already applied above
+  useEffect(() => {
+    if (!surface) return;
+    const applied = appliedPixelsRef.current;
+    const isNewTarget = !applied || applied.store !== store || applied.surface !== surface;
+    if (!isNewTarget && applied.pixels === pixels && applied.boardVersion === boardVersion) return;
+    appliedPixelsRef.current = { store, surface, pixels, boardVersion };
+    if (!isNewTarget && boardVersion !== undefined && applied.boardVersion === boardVersion) return;
+    const changed = store.applyPixels(pixels);
+    if (isNewTarget) {
+      surface.invalidateAll();
+    } else {
+      surface.invalidatePixels(changed);
+    }
+    if (isNewTarget || changed.length) setStoreRevision(revision => revision + 1);
+  }, [store, surface, pixels, boardVersion]);
 
+  // Viewport and overlay changes repaint the whole frame (a single blit)
   useEffect(() => {
     drawCanvas();
   }, [drawCanvas]);
@@ -519,24 +602,33 @@ export const EnhancedPixelCanvas = ({
           <Button
             variant="outline"
             size="sm"
-            onClick={() => setZoom(Math.max(MIN_ZOOM, zoom - 1))}
-            disabled={zoom <= MIN_ZOOM}
+            onClick={() => zoomBy(1 / 1.5)}
+            disabled={zoom <= minZoom}
             className="p-1 h-8 w-8"
           >
             <ZoomOut className="h-3 w-3" />
           </Button>
           <span className="text-xs text-muted-foreground px-1 min-w-[30px] text-center">
-            {zoom}x
+            {formatZoom(zoom)}
           </span>
           <Button
             variant="outline"
             size="sm"
-            onClick={() => setZoom(Math.min(MAX_ZOOM, zoom + 1))}
-            disabled={zoom >= MAX_ZOOM}
+            onClick={() => zoomBy(1.5)}
+            disabled={zoom >= maxZoom}
             className="p-1 h-8 w-8"
           >
             <ZoomIn className="h-3 w-3" />
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={fitToScreen}
+            className="p-1 h-8 w-8"
+            title="Fit whole canvas"
+          >
+            <Maximize className="h-3 w-3" />
+          </Button>
           
           {/* View Controls */}
           <Button
@@ -581,10 +673,11 @@ export const EnhancedPixelCanvas = ({
             <Button
               variant="outline"
               size="sm"
-              onClick={shareCanvas}
+              onClick={copyPixelLink}
+              title="Copy link to this pixel"
               className="p-1 h-8 w-8"
             >
-              <Share2 className="h-3 w-3" />
+              <Link2 className="h-3 w-3" />
             </Button>
           </div>
         </div>
@@ -592,41 +685,75 @@ export const EnhancedPixelCanvas = ({
       
       <div className="relative w-full aspect-square overflow-hidden rounded-lg border border-border bg-canvas-bg">
         <canvas
+          key={canvasKey}
           ref={canvasRef}
-          className={`block w-full h-full bg-canvas-bg ${isPreviewMode ? 'cursor-grab' : 'cursor-crosshair'} touch-none`}
+          className={`block w-full h-full bg-canvas-bg ${isPickingColor ? 'cursor-copy' : isViewOnly ? 'cursor-grab' : 'cursor-crosshair'} touch-none`}
           onClick={handleCanvasClick}
           onMouseMove={handleMouseMove}
           onMouseDown={handleMouseDown}
           onMouseUp={handleMouseUp}
           onMouseLeave={handleMouseLeave}
           onMouseEnter={handleMouseEnter}
-          onTouchStart={handleTouchStart}
-          onTouchMove={handleTouchMove}
-          onTouchEnd={handleTouchEnd}
+          onContextMenu={handleContextMenu}
         />
         
+        {surfaceSize.width > 0 && <CanvasOverlayLayer overlays={overlays} viewport={viewport} />}
+        
         {/* Status Overlays */}
-        {hoveredPixel && !isPreviewMode && (
-          <div className="absolute top-2 right-2 bg-card/90 backdrop-blur-sm px-3 py-2 rounded-lg border border-border shadow-lg">
-            <div className="text-sm text-foreground font-medium">
-              Position: ({hoveredPixel.x}, {hoveredPixel.y})
-            </div>
-            <div className="text-xs text-muted-foreground">
-              Cost: {pixelPrice < 0.001 ? 
-                `${(pixelPrice * 1000).toFixed(1)} mIRYS` : 
-                `${pixelPrice.toFixed(4)} IRYS`
-              }
+        {inspectedPixel && (
+          <div className="absolute top-2 right-2 max-w-[calc(100%-1rem)] bg-card/90 backdrop-blur-sm px-3 py-2 rounded-lg border border-border shadow-lg">
+            <div className="flex items-center justify-between gap-2">
+              <div className="text-sm text-foreground font-medium">
+                Position: ({inspectedPixel.x}, {inspectedPixel.y})
+              </div>
+              {pinnedPixel && (
+                <button
+                  type="button"
+                  onClick={() => setPinnedPixel(null)}
+                  className="text-muted-foreground hover:text-foreground"
+                  title="Close inspector"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
             </div>
-            <div className="text-xs text-muted-foreground mt-1 flex items-center gap-2">
-              <div 
-                className="w-4 h-4 rounded border border-border" 
-                style={{ backgroundColor: selectedColor }}
-              ></div>
-              <span className="font-mono">{selectedColor.toUpperCase()}</span>
+            {!pinnedPixel && (
+              <>
+                <div className="text-xs text-muted-foreground">
+                  Cost: {pixelPrice < 0.001 ? 
+                    `${(pixelPrice * 1000).toFixed(1)} mIRYS` : 
+                    `${pixelPrice.toFixed(4)} IRYS`
+                  }
+                </div>
+                <div className="text-xs text-muted-foreground mt-1 flex items-center gap-2">
+                  <div 
+                    className="w-4 h-4 rounded border border-border" 
+                    style={{ backgroundColor: selectedColor }}
+                  ></div>
+                  <span className="font-mono">{selectedColor.toUpperCase()}</span>
+                </div>
+              </>
+            )}
+            <div className="mt-2 pt-2 border-t border-border">
+              <PixelInspector
+                x={inspectedPixel.x}
+                y={inspectedPixel.y}
+                localColor={store.getColor(inspectedPixel.x, inspectedPixel.y)}
+              />
             </div>
           </div>
         )}
         
+        <CanvasMinimap
+          store={store}
+          revision={storeRevision}
+          zoom={zoom}
+          pan={pan}
+          viewWidth={surfaceSize.width}
+          viewHeight={surfaceSize.height}
+          onNavigate={(boardX, boardY) => centerView(boardX, boardY)}
+        />
+        
         {isDragging && (
           <div className="absolute bottom-2 left-2 bg-card/90 backdrop-blur-sm px-3 py-2 rounded-lg border border-border">
             <div className="flex items-center gap-2 text-sm text-foreground">
@@ -659,17 +786,31 @@ export const EnhancedPixelCanvas = ({
       
       <div className="mt-3 text-center text-xs text-muted-foreground space-y-1">
         <div>
-          {isPreviewMode 
-            ? "Preview mode • Drag to pan • Scroll to zoom" 
-            : "Click to place pixels • Drag to pan • Scroll to zoom"
+          {readOnly
+            ? "Viewing history • Drag to pan • Scroll or pinch to zoom"
+            : isPreviewMode 
+              ? "Preview mode • Drag to pan • Scroll or pinch to zoom" 
+              : "Click or tap to place pixels • Drag to pan • Scroll or pinch to zoom"
           }
         </div>
+        <div className="text-xs text-muted-foreground/60">
+          Right-click or long-press a pixel to pin its details
+        </div>
         {showGrid && zoom < 6 && (
           <div className="text-xs text-muted-foreground/60">
             Grid hidden at low zoom levels • Zoom in to see grid
           </div>
         )}
       </div>
+      
+      <ExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        store={store}
+        viewRegion={viewRegion}
+        syncedBlock={syncedBlock}
+        onExported={handleExported}
+      />
     </div>
   );
 };
\ No newline at end of file
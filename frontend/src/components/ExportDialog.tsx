@@ -0,0 +1,249 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { readRenderTheme, type PixelBackingStore, type PixelRegion } from "@/lib/canvasRenderer";
+import {
+  EXPORT_SCALES,
+  canExportGrid,
+  clampExportRegion,
+  exportCanvasImage,
+  getMaxExportScale,
+  renderExportCanvas,
+  type ExportFormat
+} from "@/lib/canvasExport";
+import { CONTRACT_ADDRESS, getChainIdFromEnv } from "@/lib/contract";
+
+type ExportScope = 'full' | 'view' | 'custom';
+
+const PREVIEW_SIZE = 240;
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  store: PixelBackingStore;
+  // Board area currently on screen, offered as a region preset
+  viewRegion: PixelRegion;
+  syncedBlock: number | null;
+  onExported?: (blob: Blob) => void;
+}
+
+export const ExportDialog = ({
+  open,
+  onOpenChange,
+  store,
+  viewRegion,
+  syncedBlock,
+  onExported
+}: ExportDialogProps) => {
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const [scope, setScope] = useState<ExportScope>('full');
+  const [custom, setCustom] = useState<PixelRegion>({ x: 0, y: 0, width: 64, height: 64 });
+  const [scale, setScale] = useState(1);
+  const [showGrid, setShowGrid] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('png');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const region = useMemo(() => {
+    if (scope === 'full') return { x: 0, y: 0, width: store.size, height: store.size };
+    return clampExportRegion(scope === 'view' ? viewRegion : custom, store.size);
+  }, [scope, viewRegion, custom, store.size]);
+
+  const maxScale = getMaxExportScale(region);
+  const effectiveScale = Math.min(scale, maxScale);
+  const gridAvailable = canExportGrid(effectiveScale);
+
+  // Seed the custom region from the view when the dialog opens; later pans don't move it
+  const viewRegionRef = useRef(viewRegion);
+  viewRegionRef.current = viewRegion;
+  useEffect(() => {
+    if (open) setCustom(clampExportRegion(viewRegionRef.current, store.size));
+  }, [open, store.size]);
+
+  useEffect(() => {
+    if (!open) return;
+    const frame = requestAnimationFrame(() => {
+      const preview = previewRef.current;
+      const ctx = preview?.getContext('2d');
+      if (!preview || !ctx) return;
+      // Preview at 1x, or at the export scale when the grid is on and that stays small
+      const longest = Math.max(region.width, region.height);
+      const previewScale = showGrid && gridAvailable && longest * effectiveScale <= PREVIEW_SIZE * 8
+        ? effectiveScale
+        : 1;
+      const source = renderExportCanvas(
+        store,
+        { region, scale: previewScale, showGrid: showGrid && gridAvailable && previewScale > 1 },
+        readRenderTheme()
+      );
+      const fit = Math.min(PREVIEW_SIZE / source.width, PREVIEW_SIZE / source.height);
+      const width = Math.max(1, Math.round(source.width * fit));
+      const height = Math.max(1, Math.round(source.height * fit));
+      ctx.clearRect(0, 0, PREVIEW_SIZE, PREVIEW_SIZE);
+      ctx.imageSmoothingEnabled = fit < 1;
+      ctx.drawImage(source, (PREVIEW_SIZE - width) / 2, (PREVIEW_SIZE - height) / 2, width, height);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [open, store, region, showGrid, gridAvailable, effectiveScale]);
+
+  const updateCustom = (key: keyof PixelRegion, value: string) => {
+    const parsed = parseInt(value, 10);
+    if (Number.isNaN(parsed)) return;
+    setCustom(prev => clampExportRegion({ ...prev, [key]: parsed }, store.size));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await exportCanvasImage(
+        store,
+        { region, scale: effectiveScale, showGrid: showGrid && gridAvailable, format },
+        { contractAddress: CONTRACT_ADDRESS, chainId: getChainIdFromEnv(), syncedBlock },
+        readRenderTheme()
+      );
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      const blockPart = syncedBlock !== null ? `-block${syncedBlock}` : '';
+      link.download = `pixel-canvas${blockPart}-${region.x}_${region.y}_${region.width}x${region.height}@${effectiveScale}x.${format}`;
+      link.href = url;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      onExported?.(blob);
+      toast.success("Canvas exported!");
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Export failed:', error);
+      toast.error(error instanceof Error ? error.message : "Export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export Image</DialogTitle>
+          <DialogDescription>
+            Rendered from pixel data{syncedBlock !== null ? ` synced at block ${syncedBlock}` : ''}, not from the screen.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-[auto_1fr]">
+          <canvas
+            ref={previewRef}
+            width={PREVIEW_SIZE}
+            height={PREVIEW_SIZE}
+            className="mx-auto w-40 h-40 sm:w-[240px] sm:h-[240px] rounded border border-border bg-canvas-bg"
+          />
+
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Area</Label>
+              <div className="flex gap-1">
+                {(['full', 'view', 'custom'] as const).map(option => (
+                  <Button
+                    key={option}
+                    variant={scope === option ? "default" : "outline"}
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => setScope(option)}
+                  >
+                    {option === 'full' ? 'Whole canvas' : option === 'view' ? 'Current view' : 'Region'}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {scope === 'custom' && (
+              <div className="grid grid-cols-4 gap-1">
+                {(['x', 'y', 'width', 'height'] as const).map(key => (
+                  <div key={key} className="space-y-1">
+                    <Label className="text-[10px] text-muted-foreground">{key === 'width' ? 'W' : key === 'height' ? 'H' : key.toUpperCase()}</Label>
+                    <Input
+                      type="number"
+                      min={key === 'width' || key === 'height' ? 1 : 0}
+                      max={store.size}
+                      value={custom[key]}
+                      onChange={(e) => updateCustom(key, e.target.value)}
+                      className="h-7 px-1 text-xs"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Scale</Label>
+                <Select value={String(effectiveScale)} onValueChange={(value) => setScale(Number(value))}>
+                  <SelectTrigger className="h-7 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPORT_SCALES.filter(option => option <= maxScale).map(option => (
+                      <SelectItem key={option} value={String(option)}>{option}x</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Format</Label>
+                <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+                  <SelectTrigger className="h-7 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="png">PNG</SelectItem>
+                    <SelectItem value="webp">WebP (lossless)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="export-grid" className="text-xs">
+                Grid lines{!gridAvailable && <span className="text-muted-foreground"> (8x and up)</span>}
+              </Label>
+              <Switch
+                id="export-grid"
+                checked={showGrid && gridAvailable}
+                disabled={!gridAvailable}
+                onCheckedChange={setShowGrid}
+              />
+            </div>
+
+            <div className="text-xs text-muted-foreground">
+              {region.width * effectiveScale} × {region.height * effectiveScale} px • from ({region.x}, {region.y})
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleExport} disabled={isExporting}>
+            <Download className="h-4 w-4 mr-2" />
+            {isExporting ? "Exporting..." : "Export"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,388 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Upload, Download, Copy, ListPlus } from "lucide-react";
+import { toast } from "sonner";
+import { formatEther } from "ethers";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { useRateLimitInfo } from "@/hooks/useRateLimitInfo";
+import {
+  BASIC_PRESET_COLORS,
+  PALETTE_PRESET_COLORS,
+  PALETTE_RGB_GROUPS,
+  loadCustomPresets
+} from "@/lib/colorPalettes";
+import { formatHexColor } from "@/lib/canvasRenderer";
+import { buildBoardColorIndex, decodeTemplateImage, readImageFile, type TemplateImage } from "@/lib/canvasTemplates";
+import {
+  buildPixelPlan,
+  estimatePlan,
+  formatDuration,
+  parsePalette,
+  quantizeImage,
+  renderQuantized,
+  resampleImage,
+  type DitherMode,
+  type PlannedPixel
+} from "@/lib/pixelPlan";
+
+type PaletteSource = 'palette' | 'palette-groups' | 'basic' | 'saved' | 'custom';
+
+const PALETTE_LABELS: Record<PaletteSource, string> = {
+  'palette': 'Palette presets (30)',
+  'palette-groups': 'Palette presets + color groups',
+  'basic': 'Basic presets (12)',
+  'saved': 'My saved presets',
+  'custom': 'Custom palette'
+};
+
+const DITHER_LABELS: Record<DitherMode, string> = {
+  'none': 'None',
+  'floyd-steinberg': 'Floyd–Steinberg',
+  'ordered': 'Ordered (Bayer)'
+};
+
+const PREVIEW_SIZE = 240;
+const PLAN_LIST_LIMIT = 200;
+
+interface ImageConverterDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Current board the plan is diffed against
+  boardPixels: readonly { x: number; y: number; color: string }[];
+  boardSize: number;
+  pixelPriceWei: bigint | null;
+  // Hands the plan to the placement queue
+  onQueuePlan?: (plan: PlannedPixel[]) => void;
+}
+
+/**
+ * Convert an image into a placement plan: scale and position it on the board,
+ * quantize it to a palette (optionally dithered) and list the pixels that
+ * differ from the current canvas, with total cost and time at the cooldown.
+ */
+export const ImageConverterDialog = ({
+  open,
+  onOpenChange,
+  boardPixels,
+  boardSize,
+  pixelPriceWei,
+  onQueuePlan
+}: ImageConverterDialogProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const { rateLimitInfo } = useRateLimitInfo();
+  const [source, setSource] = useState<{ name: string; image: TemplateImage } | null>(null);
+  const [size, setSize] = useState({ width: 64, height: 64 });
+  const [keepAspect, setKeepAspect] = useState(true);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const [paletteSource, setPaletteSource] = useState<PaletteSource>('palette');
+  const [customPalette, setCustomPalette] = useState("#000000 #ffffff");
+  const [dither, setDither] = useState<DitherMode>('floyd-steinberg');
+
+  const clampSize = (value: number) => Math.max(1, Math.min(boardSize, Math.round(value)));
+
+  // Re-read each time the dialog opens, they may have changed in the color picker
+  const savedPresets = useMemo(() => (open ? loadCustomPresets() : []), [open]);
+
+  const palette = useMemo(() => {
+    switch (paletteSource) {
+      case 'palette': return parsePalette(PALETTE_PRESET_COLORS);
+      case 'palette-groups': return parsePalette([...PALETTE_PRESET_COLORS, ...Object.values(PALETTE_RGB_GROUPS).flat()]);
+      case 'basic': return parsePalette(BASIC_PRESET_COLORS);
+      case 'saved': return parsePalette(savedPresets);
+      default: return parsePalette(customPalette);
+    }
+  }, [paletteSource, customPalette, savedPresets]);
+
+  const resampled = useMemo(
+    () => (source ? resampleImage(source.image.canvas, size.width, size.height) : null),
+    [source, size]
+  );
+
+  const quantized = useMemo(
+    () => (resampled ? quantizeImage(resampled, size.width, size.height, palette, dither) : null),
+    [resampled, size, palette, dither]
+  );
+
+  const boardIndex = useMemo(
+    () => (open && quantized ? buildBoardColorIndex(boardPixels, boardSize) : null),
+    [open, quantized, boardPixels, boardSize]
+  );
+
+  const plan = useMemo(() => {
+    if (!quantized || !boardIndex) return [];
+    return buildPixelPlan(quantized, size.width, size.height, palette, offset.x, offset.y, boardIndex, boardSize);
+  }, [quantized, boardIndex, size, palette, offset, boardSize]);
+
+  const estimate = estimatePlan(plan.length, pixelPriceWei, rateLimitInfo.minPlacementInterval);
+
+  useEffect(() => {
+    if (!open) return;
+    const frame = requestAnimationFrame(() => {
+      const preview = previewRef.current;
+      const ctx = preview?.getContext('2d');
+      if (!preview || !ctx) return;
+      ctx.clearRect(0, 0, PREVIEW_SIZE, PREVIEW_SIZE);
+      if (!quantized) return;
+      const layer = document.createElement('canvas');
+      layer.width = size.width;
+      layer.height = size.height;
+      layer.getContext('2d')?.putImageData(
+        new ImageData(renderQuantized(quantized, palette), size.width, size.height),
+        0,
+        0
+      );
+      const fit = Math.min(PREVIEW_SIZE / size.width, PREVIEW_SIZE / size.height);
+      const width = Math.max(1, Math.round(size.width * fit));
+      const height = Math.max(1, Math.round(size.height * fit));
+      ctx.imageSmoothingEnabled = fit < 1;
+      ctx.drawImage(layer, (PREVIEW_SIZE - width) / 2, (PREVIEW_SIZE - height) / 2, width, height);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [open, quantized, palette, size]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const image = await decodeTemplateImage(await readImageFile(file));
+      setSource({ name: file.name, image });
+      // Start at native size, shrunk to fit the board
+      const fit = Math.min(1, boardSize / Math.max(image.width, image.height));
+      setSize({ width: clampSize(image.width * fit), height: clampSize(image.height * fit) });
+      setOffset({ x: 0, y: 0 });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load image");
+    }
+  };
+
+  const updateSize = (key: 'width' | 'height', value: string) => {
+    const parsed = parseInt(value, 10);
+    if (Number.isNaN(parsed)) return;
+    const next = clampSize(parsed);
+    if (!keepAspect || !source) {
+      setSize(prev => ({ ...prev, [key]: next }));
+      return;
+    }
+    const ratio = source.image.width / source.image.height;
+    setSize(key === 'width'
+      ? { width: next, height: clampSize(next / ratio) }
+      : { width: clampSize(next * ratio), height: next });
+  };
+
+  const updateOffset = (key: 'x' | 'y', value: string) => {
+    const parsed = parseInt(value, 10);
+    if (Number.isNaN(parsed)) return;
+    setOffset(prev => ({ ...prev, [key]: Math.max(0, Math.min(boardSize - 1, parsed)) }));
+  };
+
+  const planJson = () => JSON.stringify({
+    source: source?.name,
+    offset,
+    size,
+    dither,
+    palette: palette.map(formatHexColor),
+    pixels: plan
+  });
+
+  const downloadPlan = () => {
+    const url = URL.createObjectURL(new Blob([planJson()], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.download = `pixel-plan-${offset.x}_${offset.y}_${size.width}x${size.height}.json`;
+    link.href = url;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const copyPlan = async () => {
+    try {
+      await navigator.clipboard.writeText(planJson());
+      toast.success("Plan copied to clipboard!");
+    } catch {
+      toast.error("Failed to copy plan");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Image to Pixel Plan</DialogTitle>
+          <DialogDescription>
+            Scale an image onto the canvas, reduce it to a palette and list the pixels that still need placing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-[auto_1fr]">
+          <div className="space-y-2">
+            <canvas
+              ref={previewRef}
+              width={PREVIEW_SIZE}
+              height={PREVIEW_SIZE}
+              className="mx-auto w-40 h-40 sm:w-[240px] sm:h-[240px] rounded border border-border bg-canvas-bg"
+            />
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} className="w-full h-8 text-xs">
+              <Upload className="h-3 w-3 mr-1" />
+              {source ? source.name : "Choose image"}
+            </Button>
+            <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleFile} />
+          </div>
+
+          <div className="space-y-3">
+            <div className="grid grid-cols-4 gap-1">
+              {([
+                ["x", offset.x, (v: string) => updateOffset('x', v)],
+                ["y", offset.y, (v: string) => updateOffset('y', v)],
+                ["width", size.width, (v: string) => updateSize('width', v)],
+                ["height", size.height, (v: string) => updateSize('height', v)]
+              ] as const).map(([key, value, onChange]) => (
+                <div key={key} className="space-y-1">
+                  <Label className="text-[10px] text-muted-foreground">{key === 'width' ? 'W' : key === 'height' ? 'H' : key.toUpperCase()}</Label>
+                  <Input
+                    type="number"
+                    min={key === 'width' || key === 'height' ? 1 : 0}
+                    max={boardSize}
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    className="h-7 px-1 text-xs"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch id="converter-aspect" checked={keepAspect} onCheckedChange={setKeepAspect} />
+              <Label htmlFor="converter-aspect" className="text-xs">Keep aspect ratio</Label>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Palette</Label>
+                <Select value={paletteSource} onValueChange={(value) => setPaletteSource(value as PaletteSource)}>
+                  <SelectTrigger className="h-7 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PALETTE_LABELS) as PaletteSource[]).map(option => (
+                      <SelectItem key={option} value={option}>{PALETTE_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Dithering</Label>
+                <Select value={dither} onValueChange={(value) => setDither(value as DitherMode)}>
+                  <SelectTrigger className="h-7 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DITHER_LABELS) as DitherMode[]).map(option => (
+                      <SelectItem key={option} value={option}>{DITHER_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {paletteSource === 'custom' && (
+              <Textarea
+                value={customPalette}
+                onChange={(e) => setCustomPalette(e.target.value)}
+                placeholder="#000000, #ffffff, #ff0000"
+                className="text-xs font-mono min-h-[60px]"
+              />
+            )}
+
+            <div className="flex flex-wrap gap-1">
+              {palette.map(rgb => {
+                const color = formatHexColor(rgb);
+                return <div key={rgb} className="w-4 h-4 rounded-sm border border-border" style={{ backgroundColor: color }} title={color} />;
+              })}
+              {palette.length === 0 && <span className="text-xs text-destructive">Palette is empty</span>}
+            </div>
+
+            <div className="p-2 rounded border bg-muted/30 text-xs space-y-1">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Pixels to place</span>
+                <span className="font-medium">{estimate.pixels.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Total cost</span>
+                <span className="font-medium">
+                  {estimate.costWei === null ? "—" : `${Number(formatEther(estimate.costWei)).toFixed(4)} IRYS`}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">ETA at {rateLimitInfo.minPlacementInterval}s cooldown</span>
+                <span className="font-medium">{formatDuration(estimate.etaSeconds)}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {plan.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">
+                Placement plan{plan.length > PLAN_LIST_LIMIT && ` (first ${PLAN_LIST_LIMIT} of ${plan.length.toLocaleString()})`}
+              </Label>
+              <div className="flex gap-1">
+                <Button variant="outline" size="sm" onClick={copyPlan} className="h-7 text-xs">
+                  <Copy className="h-3 w-3 mr-1" />
+                  Copy
+                </Button>
+                <Button variant="outline" size="sm" onClick={downloadPlan} className="h-7 text-xs">
+                  <Download className="h-3 w-3 mr-1" />
+                  Download JSON
+                </Button>
+                {onQueuePlan && (
+                  <Button
+                    size="sm"
+                    onClick={() => {
+                      onQueuePlan(plan);
+                      onOpenChange(false);
+                    }}
+                    className="h-7 text-xs"
+                  >
+                    <ListPlus className="h-3 w-3 mr-1" />
+                    Add to queue
+                  </Button>
+                )}
+              </div>
+            </div>
+            <div className="max-h-40 overflow-y-auto rounded border p-1 grid grid-cols-2 sm:grid-cols-4 gap-x-2">
+              {plan.slice(0, PLAN_LIST_LIMIT).map(pixel => (
+                <div key={`${pixel.x}_${pixel.y}`} className="flex items-center gap-1 text-xs font-mono">
+                  <span className="w-3 h-3 rounded-sm border border-border" style={{ backgroundColor: pixel.color }} />
+                  ({pixel.x}, {pixel.y})
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {source && plan.length === 0 && palette.length > 0 && (
+          <div className="text-xs text-muted-foreground">The canvas already matches this image.</div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -4,6 +4,7 @@ import { Badge } from "@/components/ui/badge";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 import { Input } from "@/components/ui/input";
 import { Palette, Check } from "lucide-react";
+import { useColorHistory } from "@/hooks/useColorHistory";
 
 interface MobileColorPickerProps {
   selectedColor: string;
@@ -23,10 +24,12 @@ const PRESET_COLORS = [
 export const MobileColorPicker = ({ selectedColor, onColorSelect }: MobileColorPickerProps) => {
   const [customColor, setCustomColor] = useState(selectedColor);
   const [isOpen, setIsOpen] = useState(false);
+  const { colors: colorHistory, add: addToHistory } = useColorHistory();
 
   const handleColorSelect = (color: string) => {
     onColorSelect(color);
     setCustomColor(color);
+    addToHistory(color);
   };
 
   const handleCustomColorChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -116,6 +119,9 @@ export const MobileColorPicker = ({ selectedColor, onColorSelect }: MobileColorP
             </div>
           </div>
 
+          {/* Recent Colors, shared with the canvas eyedropper */}
+          {colorHistory.length > 0 && <ColorGrid colors={colorHistory} title="Recent Colors" />}
+
           {/* Basic Colors */}
           <ColorGrid colors={BASIC_COLORS} title="Basic Colors" />
 
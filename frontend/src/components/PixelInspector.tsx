@@ -0,0 +1,99 @@
+import { ExternalLink } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { usePixelInfo } from "@/hooks/usePixelInfo";
+import { getIrysUrls } from "@/config/irys";
+
+interface PixelInspectorProps {
+  x: number;
+  y: number;
+  // Locally known color of the pixel; a change triggers a fresh lookup
+  localColor: string | null;
+}
+
+const formatAddress = (addr: string) => {
+  return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+};
+
+const formatTxId = (txId: string) => {
+  return txId.length > 14 ? `${txId.slice(0, 8)}...${txId.slice(-4)}` : txId;
+};
+
+/**
+ * On-chain details of a single pixel: owner, time, Irys transaction and,
+ * for Programmable Data placements, the decoded stored payload.
+ */
+export const PixelInspector = ({ x, y, localColor }: PixelInspectorProps) => {
+  const lookup = usePixelInfo({ x, y }, localColor ?? '');
+  // Ignore a result still showing the previously inspected pixel
+  const info = lookup.info && lookup.info.x === x && lookup.info.y === y ? lookup.info : null;
+  const { pdData, isLoading, error } = lookup;
+
+  if (error) {
+    return <div className="text-xs text-destructive">Failed to load pixel: {error}</div>;
+  }
+
+  if (!info) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <div className="animate-spin h-3 w-3 border-2 border-primary border-t-transparent rounded-full"></div>
+        Loading on-chain data...
+      </div>
+    );
+  }
+
+  if (!info.color) {
+    return <div className="text-xs text-muted-foreground">Empty pixel • never placed</div>;
+  }
+
+  const urls = info.irysTxId ? getIrysUrls(info.irysTxId) : null;
+  const payload = pdData
+    ? (pdData.json !== null ? JSON.stringify(pdData.json, null, 2) : pdData.text)
+    : null;
+
+  return (
+    <div className="space-y-1 text-xs">
+      <div className="flex items-center gap-2">
+        <div
+          className="w-4 h-4 rounded border border-border"
+          style={{ backgroundColor: info.color }}
+        ></div>
+        <span className="font-mono text-foreground">{info.color.toUpperCase()}</span>
+        <Badge variant="outline" className="text-[10px] px-1 py-0">
+          {info.isProgrammableData ? "Programmable Data" : "Standard"}
+        </Badge>
+      </div>
+      <div className="text-muted-foreground">
+        Placed by <span className="font-mono text-foreground" title={info.placedBy}>{formatAddress(info.placedBy)}</span>
+      </div>
+      <div className="text-muted-foreground">
+        {new Date(info.timestamp * 1000).toLocaleString()}
+      </div>
+      {urls && (
+        <a
+          href={urls.gateway}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1 text-primary hover:underline"
+          title={info.irysTxId}
+        >
+          Irys tx <span className="font-mono">{formatTxId(info.irysTxId)}</span>
+          <ExternalLink className="h-3 w-3" />
+        </a>
+      )}
+      {info.isProgrammableData && (
+        isLoading ? (
+          <div className="text-muted-foreground">Loading stored data...</div>
+        ) : payload ? (
+          <div>
+            <div className="text-muted-foreground">Stored data ({pdData?.byteLength} bytes)</div>
+            <pre className="mt-1 max-h-32 max-w-[240px] overflow-auto rounded bg-muted p-1 font-mono text-[10px] whitespace-pre-wrap break-all">
+              {payload}
+            </pre>
+          </div>
+        ) : (
+          <div className="text-muted-foreground">No stored data on-chain</div>
+        )
+      )}
+    </div>
+  );
+};
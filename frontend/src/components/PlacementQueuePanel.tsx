@@ -0,0 +1,149 @@
+import { ListOrdered, Play, Pause, ArrowUp, ArrowDown, ChevronsUp, X, Trash2, Timer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { usePlacementQueue, type QueueStatus } from "@/hooks/usePlacementQueue";
+
+type PlacementQueueControls = ReturnType<typeof usePlacementQueue>;
+
+interface PlacementQueuePanelProps {
+  queue: PlacementQueueControls;
+}
+
+// Long queues (image plans) only render their head
+const VISIBLE_ITEMS = 100;
+
+const STATUS_TEXT: Record<QueueStatus, string> = {
+  empty: "Queue is empty",
+  paused: "Paused",
+  disconnected: "Connect your wallet to start placing",
+  waiting: "Waiting for cooldown",
+  placing: "Placing pixel...",
+  ready: "Checking cooldown..."
+};
+
+/**
+ * Placement queue controls: queue mode for canvas clicks, countdown to the
+ * next placement, pause/resume, and reordering or removing queued pixels.
+ */
+export const PlacementQueuePanel = ({ queue }: PlacementQueuePanelProps) => {
+  const { items, status, placingId, secondsUntilNext, lastError, skippedCount } = queue;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant={queue.isQueueMode ? "default" : "outline"} size="sm" className="h-8">
+          <ListOrdered className="h-3 w-3 mr-2" />
+          Queue{items.length > 0 && ` (${items.length.toLocaleString()})`}
+          {status === 'waiting' && (
+            <span className="ml-2 flex items-center gap-1 text-xs opacity-80">
+              <Timer className="h-3 w-3" />
+              {secondsUntilNext}s
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="text-sm font-medium">Placement queue</div>
+          <div className="flex gap-1">
+            {queue.isPaused ? (
+              <Button size="sm" onClick={queue.resume} disabled={!items.length} className="h-7 text-xs">
+                <Play className="h-3 w-3 mr-1" />
+                Resume
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" onClick={queue.pause} disabled={!items.length} className="h-7 text-xs">
+                <Pause className="h-3 w-3 mr-1" />
+                Pause
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={queue.clear}
+              disabled={!items.length}
+              className="p-1 h-7 w-7 text-destructive"
+              title="Clear queue"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch id="queue-mode" checked={queue.isQueueMode} onCheckedChange={queue.setIsQueueMode} />
+          <Label htmlFor="queue-mode" className="text-xs">Canvas clicks add to the queue</Label>
+        </div>
+
+        <div className="text-xs text-muted-foreground space-y-1">
+          <div>
+            {status === 'waiting' ? `Next placement in ${secondsUntilNext}s` : STATUS_TEXT[status]}
+          </div>
+          {skippedCount > 0 && <div>{skippedCount.toLocaleString()} skipped (already the right color)</div>}
+          {lastError && <div className="text-destructive">{lastError}</div>}
+        </div>
+
+        {items.length > 0 && (
+          <div className="max-h-60 overflow-y-auto rounded border p-1 space-y-0.5">
+            {items.slice(0, VISIBLE_ITEMS).map((item, index) => (
+              <div
+                key={item.id}
+                className={`flex items-center gap-1 px-1 rounded text-xs ${item.id === placingId ? 'bg-muted' : ''}`}
+              >
+                <span className="w-3 h-3 rounded-sm border border-border flex-shrink-0" style={{ backgroundColor: item.color }} />
+                <span className="font-mono flex-1">({item.x}, {item.y})</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => queue.moveToFront(item.id)}
+                  disabled={index === 0}
+                  className="p-0 h-6 w-6"
+                  title="Place next"
+                >
+                  <ChevronsUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => queue.move(item.id, -1)}
+                  disabled={index === 0}
+                  className="p-0 h-6 w-6"
+                  title="Move up"
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => queue.move(item.id, 1)}
+                  disabled={index === items.length - 1}
+                  className="p-0 h-6 w-6"
+                  title="Move down"
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => queue.remove(item.id)}
+                  disabled={item.id === placingId}
+                  className="p-0 h-6 w-6"
+                  title="Remove"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+            {items.length > VISIBLE_ITEMS && (
+              <div className="px-1 text-xs text-muted-foreground">
+                ...and {(items.length - VISIBLE_ITEMS).toLocaleString()} more
+              </div>
+            )}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
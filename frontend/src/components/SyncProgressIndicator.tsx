@@ -0,0 +1,27 @@
+import { Loader2 } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import type { SyncProgress } from "@/hooks/useCanvasSync";
+
+interface SyncProgressIndicatorProps {
+  progress: SyncProgress;
+}
+
+/**
+ * Progress of the initial canvas sync, shown until the board is loaded and
+ * live updates take over.
+ */
+export const SyncProgressIndicator = ({ progress }: SyncProgressIndicatorProps) => {
+  const { phase, done, total } = progress;
+  const percent = total > 0 ? Math.min(100, (done / total) * 100) : 0;
+  const label = phase === "tiles"
+    ? `Loading canvas ${done.toLocaleString()}/${total.toLocaleString()} tiles`
+    : `Replaying placements ${done.toLocaleString()}/${total.toLocaleString()} blocks`;
+
+  return (
+    <div className="flex items-center gap-2 h-8 text-xs text-muted-foreground">
+      <Loader2 className="h-3 w-3 animate-spin" />
+      <Progress value={percent} className="h-2 w-24" />
+      <span>{label}</span>
+    </div>
+  );
+};
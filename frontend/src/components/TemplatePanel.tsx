@@ -0,0 +1,209 @@
+import { useRef, useState } from "react";
+import { Layers, Upload, Link, Eye, EyeOff, ArrowUp, ArrowDown, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useCanvasTemplates } from "@/hooks/useCanvasTemplates";
+
+type TemplateControls = ReturnType<typeof useCanvasTemplates>;
+
+interface TemplatePanelProps {
+  templates: TemplateControls;
+  boardSize: number;
+}
+
+const formatPercent = (matching: number, total: number) =>
+  total ? `${((matching / total) * 100).toFixed(1)}%` : "—";
+
+/**
+ * Manage reference-image templates: add from a file or URL, then position,
+ * fade, reorder and track completion of each one against the live canvas.
+ */
+export const TemplatePanel = ({ templates, boardSize }: TemplatePanelProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [urlInput, setUrlInput] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const { templates: list, images, errors, progress } = templates;
+
+  const add = async (load: () => Promise<unknown>) => {
+    setIsAdding(true);
+    try {
+      await load();
+      toast.success("Template added");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to add template");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) add(() => templates.addFromFile(file));
+  };
+
+  const handleUrl = () => {
+    const url = urlInput.trim();
+    if (!url) return;
+    add(async () => {
+      await templates.addFromUrl(url);
+      setUrlInput("");
+    });
+  };
+
+  // Shown top-most first, like a layer list
+  const ordered = [...list].reverse();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8">
+          <Layers className="h-3 w-3 mr-2" />
+          Templates{list.length > 0 && ` (${list.length})`}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 max-h-[70vh] overflow-y-auto space-y-3">
+        <div className="text-sm font-medium">Reference templates</div>
+
+        <div className="flex gap-1">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isAdding}
+            className="h-8 text-xs"
+          >
+            <Upload className="h-3 w-3 mr-1" />
+            PNG
+          </Button>
+          <input ref={fileInputRef} type="file" accept="image/png,image/*" className="hidden" onChange={handleFile} />
+          <Input
+            placeholder="https://... image URL"
+            value={urlInput}
+            onChange={(e) => setUrlInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleUrl()}
+            className="h-8 text-xs"
+          />
+          <Button size="sm" onClick={handleUrl} disabled={isAdding || !urlInput.trim()} className="h-8 px-2" title="Add from URL">
+            <Link className="h-3 w-3" />
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch id="template-mismatches" checked={templates.showMismatches} onCheckedChange={templates.setShowMismatches} />
+          <Label htmlFor="template-mismatches" className="text-xs">Highlight pixels that differ</Label>
+        </div>
+
+        {ordered.length === 0 && (
+          <div className="text-xs text-muted-foreground">
+            Add an image to pin it over the canvas. One image pixel maps to one canvas pixel.
+          </div>
+        )}
+
+        {ordered.map((template, i) => {
+          const image = images[template.id];
+          const result = progress[template.id];
+          const isTop = i === 0;
+          const isBottom = i === ordered.length - 1;
+          return (
+            <div key={template.id} className="p-2 rounded-lg border space-y-2">
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => templates.updateTemplate(template.id, { visible: !template.visible })}
+                  className="p-1 h-7 w-7"
+                  title={template.visible ? "Hide" : "Show"}
+                >
+                  {template.visible ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3" />}
+                </Button>
+                <span className="text-xs font-medium truncate flex-1" title={template.name}>{template.name}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => templates.moveTemplate(template.id, 1)}
+                  disabled={isTop}
+                  className="p-1 h-7 w-7"
+                  title="Bring forward"
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => templates.moveTemplate(template.id, -1)}
+                  disabled={isBottom}
+                  className="p-1 h-7 w-7"
+                  title="Send backward"
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => templates.removeTemplate(template.id)}
+                  className="p-1 h-7 w-7 text-destructive"
+                  title="Remove template"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+
+              {errors[template.id] && <div className="text-xs text-destructive">{errors[template.id]}</div>}
+
+              <div className="grid grid-cols-2 gap-2">
+                {(["x", "y"] as const).map(axis => (
+                  <div key={axis} className="flex items-center gap-1">
+                    <Label className="text-xs w-3 uppercase">{axis}</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={boardSize - 1}
+                      value={template[axis]}
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value, 10);
+                        if (!Number.isNaN(value)) templates.updateTemplate(template.id, { [axis]: value });
+                      }}
+                      className="h-7 text-xs"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Label className="text-xs w-14">Opacity</Label>
+                <Slider
+                  min={0.05}
+                  max={1}
+                  step={0.05}
+                  value={[template.opacity]}
+                  onValueChange={([opacity]) => templates.updateTemplate(template.id, { opacity })}
+                  className="flex-1"
+                />
+                <span className="text-xs text-muted-foreground w-8 text-right">{Math.round(template.opacity * 100)}%</span>
+              </div>
+
+              {image && result && (
+                <div className="space-y-1">
+                  <Progress value={result.total ? (result.matching / result.total) * 100 : 0} className="h-2" />
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span>{image.width}×{image.height}px</span>
+                    <span>
+                      {formatPercent(result.matching, result.total)} complete • {(result.total - result.matching).toLocaleString()} left
+                    </span>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,131 @@
+import { ArrowUp, ArrowDown, ArrowLeft, ArrowRight, Check } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { useTextTool } from "@/hooks/useTextTool";
+import { PIXEL_FONTS } from "@/lib/pixelFonts";
+
+type TextToolControls = ReturnType<typeof useTextTool>;
+
+interface TextToolPanelProps {
+  textTool: TextToolControls;
+  layerName: string | null;
+}
+
+const SCALES = [1, 2, 3, 4];
+
+/**
+ * Options for the text tool. The text is drawn in the selected color; click
+ * or drag on the canvas to position it, then add it to the active layer.
+ */
+export const TextToolPanel = ({ textTool, layerName }: TextToolPanelProps) => {
+  const { position } = textTool;
+
+  const commit = () => {
+    const count = textTool.commit();
+    if (count) toast.success(`Added ${count.toLocaleString()} text pixels to ${layerName ?? "a new layer"}`);
+  };
+
+  return (
+    <div className="mb-3 p-3 rounded-lg border bg-card/50 flex flex-wrap items-start gap-3">
+      <Textarea
+        value={textTool.text}
+        onChange={(e) => textTool.setText(e.target.value)}
+        placeholder="Type text, then click the canvas to place it"
+        className="w-64 min-h-[60px] text-sm font-mono"
+      />
+
+      <div className="grid grid-cols-[auto_1fr] items-center gap-x-2 gap-y-1">
+        <Label className="text-xs">Font</Label>
+        <Select value={textTool.fontId} onValueChange={textTool.setFontId}>
+          <SelectTrigger className="h-7 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PIXEL_FONTS.map(font => (
+              <SelectItem key={font.id} value={font.id}>{font.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Label className="text-xs">Size</Label>
+        <Select value={String(textTool.scale)} onValueChange={(value) => textTool.setScale(Number(value))}>
+          <SelectTrigger className="h-7 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SCALES.map(scale => (
+              <SelectItem key={scale} value={String(scale)}>{scale}×</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Label htmlFor="text-spacing" className="text-xs">Spacing</Label>
+        <Input
+          id="text-spacing"
+          type="number"
+          min={0}
+          max={8}
+          value={textTool.letterSpacing}
+          onChange={(e) => {
+            const value = parseInt(e.target.value, 10);
+            if (!Number.isNaN(value)) textTool.setLetterSpacing(Math.max(0, Math.min(8, value)));
+          }}
+          className="h-7 w-36 text-xs"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Switch id="text-outline" checked={textTool.hasOutline} onCheckedChange={textTool.setHasOutline} />
+          <Label htmlFor="text-outline" className="text-xs">Outline</Label>
+          <Input
+            type="color"
+            value={textTool.outlineColor}
+            onChange={(e) => textTool.setOutlineColor(e.target.value)}
+            disabled={!textTool.hasOutline}
+            className="w-10 h-7 p-0.5"
+            aria-label="Outline color"
+          />
+        </div>
+        <div className="flex items-center gap-1">
+          {([
+            ["Move left", ArrowLeft, -1, 0],
+            ["Move up", ArrowUp, 0, -1],
+            ["Move down", ArrowDown, 0, 1],
+            ["Move right", ArrowRight, 1, 0]
+          ] as const).map(([label, Icon, dx, dy]) => (
+            <Button
+              key={label}
+              variant="outline"
+              size="sm"
+              onClick={() => textTool.nudge(dx, dy)}
+              disabled={!position}
+              className="p-1 h-7 w-7"
+              title={label}
+            >
+              <Icon className="h-3 w-3" />
+            </Button>
+          ))}
+        </div>
+        <div className="text-xs text-muted-foreground">
+          {position ? `At (${position.x}, ${position.y})` : "Click the canvas to place"}
+          {textTool.text.trim() && ` • ${textTool.width}×${textTool.height}px`}
+        </div>
+      </div>
+
+      <Button size="sm" onClick={commit} disabled={!textTool.pixelCount} className="h-8 text-xs self-end">
+        <Check className="h-3 w-3 mr-1" />
+        Add to {layerName ?? "layer"}
+      </Button>
+    </div>
+  );
+};
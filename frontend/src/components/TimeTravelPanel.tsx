@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { Clock, ChevronLeft, ChevronRight, Radio } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useTimeTravel } from "@/hooks/useTimeTravel";
+
+type TimeTravelControls = ReturnType<typeof useTimeTravel>;
+
+interface TimeTravelPanelProps {
+  timeTravel: TimeTravelControls;
+  // Called before entering historical mode, e.g. to close other history views
+  onBeforeTravel?: () => void;
+}
+
+const formatAddress = (addr: string) => {
+  return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+};
+
+/**
+ * Entry point and banner for the read-only historical view.
+ * Closed: a button opening a block/date picker. Active: a banner saying which
+ * block is shown, with stepping between placement blocks and a way back to live.
+ */
+export const TimeTravelPanel = ({ timeTravel, onBeforeTravel }: TimeTravelPanelProps) => {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const [blockInput, setBlockInput] = useState("");
+  const [dateInput, setDateInput] = useState("");
+
+  const travelToBlock = () => {
+    const block = parseInt(blockInput, 10);
+    if (Number.isNaN(block) || block < 0) return;
+    onBeforeTravel?.();
+    setIsPickerOpen(false);
+    timeTravel.travelTo({ kind: 'block', block });
+  };
+
+  const travelToDate = () => {
+    const time = new Date(dateInput).getTime();
+    if (Number.isNaN(time)) return;
+    onBeforeTravel?.();
+    setIsPickerOpen(false);
+    timeTravel.travelTo({ kind: 'time', time });
+  };
+
+  if (!timeTravel.isActive) {
+    return (
+      <Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="h-8">
+            <Clock className="h-3 w-3 mr-2" />
+            Time travel
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 space-y-3">
+          <div className="text-sm font-medium">View the canvas as it was</div>
+          <div className="space-y-1">
+            <Label htmlFor="time-travel-block" className="text-xs">At block</Label>
+            <div className="flex gap-1">
+              <Input
+                id="time-travel-block"
+                type="number"
+                min={0}
+                placeholder="Block number"
+                value={blockInput}
+                onChange={(e) => setBlockInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && travelToBlock()}
+                className="h-8 text-xs"
+              />
+              <Button size="sm" onClick={travelToBlock} disabled={!blockInput} className="h-8 text-xs">Go</Button>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="time-travel-date" className="text-xs">At date</Label>
+            <div className="flex gap-1">
+              <Input
+                id="time-travel-date"
+                type="datetime-local"
+                value={dateInput}
+                onChange={(e) => setDateInput(e.target.value)}
+                className="h-8 text-xs"
+              />
+              <Button size="sm" onClick={travelToDate} disabled={!dateInput} className="h-8 text-xs">Go</Button>
+            </div>
+          </div>
+        </PopoverContent>
+      </Popover>
+    );
+  }
+
+  const { isLoading, loadProgress, error, isReady, block, time, lastPlacement } = timeTravel;
+
+  return (
+    <div className="w-full p-3 rounded-lg border border-yellow-500 bg-yellow-500/10 space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+          <Clock className="h-4 w-4" />
+          {isReady
+            ? <>Historical view • block {block}{time !== null && ` (${new Date(time).toLocaleString()})`} • read-only</>
+            : 'Rebuilding historical canvas...'}
+        </div>
+        <div className="flex items-center gap-1">
+          {isReady && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => timeTravel.stepPlacementBlock(-1)}
+                disabled={!timeTravel.hasPrevious}
+                className="p-1 h-8 w-8"
+                title="Previous block with placements"
+              >
+                <ChevronLeft className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => timeTravel.stepPlacementBlock(1)}
+                disabled={!timeTravel.hasNext}
+                className="p-1 h-8 w-8"
+                title="Next block with placements"
+              >
+                <ChevronRight className="h-3 w-3" />
+              </Button>
+            </>
+          )}
+          <Button size="sm" onClick={timeTravel.exit} className="h-8 text-xs">
+            <Radio className="h-3 w-3 mr-1" />
+            Back to live
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && (
+        <div className="space-y-1">
+          <Progress value={loadProgress * 100} className="h-2" />
+          <div className="text-xs text-muted-foreground">Loading placement history... {Math.round(loadProgress * 100)}%</div>
+        </div>
+      )}
+
+      {error && <div className="text-xs text-destructive">{error}</div>}
+
+      {isReady && (
+        <div className="text-xs text-muted-foreground">
+          {lastPlacement
+            ? <>Last placement included: ({lastPlacement.x}, {lastPlacement.y}) by {formatAddress(lastPlacement.owner)} in block {lastPlacement.blockNumber}, {new Date(lastPlacement.timestamp).toLocaleString()}</>
+            : 'No placements at or before this block.'}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { Play, Pause, History, X, SkipBack, CalendarClock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { TIMELAPSE_SPEEDS, useTimelapse } from "@/hooks/useTimelapse";
+
+type TimelapseControls = ReturnType<typeof useTimelapse>;
+
+interface TimelapsePlayerProps {
+  timelapse: TimelapseControls;
+  // Called before the player opens, e.g. to leave other history views
+  onBeforeOpen?: () => void;
+}
+
+// datetime-local wants local time without seconds or zone
+const toLocalInputValue = (time: number) => {
+  const date = new Date(time);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(time - offset).toISOString().slice(0, 16);
+};
+
+/**
+ * Controls for replaying canvas history: play/pause, speed, a block-range
+ * scrubber and jump-to-date. Collapsed to a single button when closed.
+ */
+export const TimelapsePlayer = ({ timelapse, onBeforeOpen }: TimelapsePlayerProps) => {
+  const {
+    isOpen,
+    isLoading,
+    loadProgress,
+    error,
+    history,
+    position,
+    isPlaying,
+    speed,
+    currentBlock,
+    currentTime
+  } = timelapse;
+  const [dateInput, setDateInput] = useState("");
+
+  if (!isOpen) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => {
+          onBeforeOpen?.();
+          timelapse.open();
+        }}
+        className="h-8"
+      >
+        <History className="h-3 w-3 mr-2" />
+        Timelapse
+      </Button>
+    );
+  }
+
+  const firstBlock = history?.firstBlock ?? 0;
+  const lastBlock = history?.lastBlock ?? 0;
+  const hasEvents = !!history && history.length > 0;
+
+  const jumpToDate = () => {
+    const time = new Date(dateInput).getTime();
+    if (!Number.isNaN(time)) timelapse.seekToTime(time);
+  };
+
+  return (
+    <div className="w-full p-3 bg-card/50 rounded-lg border space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+          <History className="h-4 w-4" />
+          Timelapse
+        </div>
+        <Button variant="ghost" size="sm" onClick={timelapse.close} className="h-7 text-xs">
+          <X className="h-3 w-3 mr-1" />
+          Back to live
+        </Button>
+      </div>
+
+      {isLoading && (
+        <div className="space-y-1">
+          <Progress value={loadProgress * 100} className="h-2" />
+          <div className="text-xs text-muted-foreground">Loading placement history... {Math.round(loadProgress * 100)}%</div>
+        </div>
+      )}
+
+      {error && <div className="text-xs text-destructive">{error}</div>}
+
+      {history && !hasEvents && (
+        <div className="text-xs text-muted-foreground">No placements found in the synced block range.</div>
+      )}
+
+      {hasEvents && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => timelapse.seek(0)} className="p-1 h-8 w-8" title="Back to start">
+              <SkipBack className="h-3 w-3" />
+            </Button>
+            <Button
+              size="sm"
+              onClick={isPlaying ? timelapse.pause : timelapse.play}
+              className="p-1 h-8 w-8"
+              title={isPlaying ? "Pause" : "Play"}
+            >
+              {isPlaying ? <Pause className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+            </Button>
+            <Select value={String(speed)} onValueChange={(value) => timelapse.setSpeed(Number(value))}>
+              <SelectTrigger className="h-8 w-[120px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TIMELAPSE_SPEEDS.map(option => (
+                  <SelectItem key={option} value={String(option)}>{option} px/s</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-1 ml-auto">
+              <Input
+                type="datetime-local"
+                value={dateInput}
+                min={history.events[0] ? toLocalInputValue(history.events[0].timestamp) : undefined}
+                onChange={(e) => setDateInput(e.target.value)}
+                className="h-8 w-[190px] text-xs"
+              />
+              <Button variant="outline" size="sm" onClick={jumpToDate} disabled={!dateInput} className="h-8 text-xs">
+                <CalendarClock className="h-3 w-3 mr-1" />
+                Jump
+              </Button>
+            </div>
+          </div>
+
+          <Slider
+            min={firstBlock}
+            max={Math.max(firstBlock + 1, lastBlock)}
+            step={1}
+            value={[currentBlock ?? firstBlock]}
+            onValueChange={([block]) => timelapse.seekToBlock(block)}
+          />
+
+          <div className="flex flex-wrap justify-between gap-2 text-xs text-muted-foreground">
+            <span>
+              Block {currentBlock ?? '—'}
+              {currentTime !== null && ` • ${new Date(currentTime).toLocaleString()}`}
+            </span>
+            <span>{position.toLocaleString()} / {history.length.toLocaleString()} placements</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -4,6 +4,7 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Palette } from "lucide-react";
 import { toast } from "sonner";
+import { useColorHistory } from "@/hooks/useColorHistory";
 
 interface VerticalColorPickerProps {
   selectedColor: string;
@@ -21,6 +22,7 @@ const MAX_CUSTOM_PRESETS = 12;
 export const VerticalColorPicker = ({ selectedColor, onColorSelect }: VerticalColorPickerProps) => {
   const [inputColor, setInputColor] = useState(selectedColor);
   const [customPresets, setCustomPresets] = useState<string[]>([]);
+  const { colors: colorHistory, add: addToHistory } = useColorHistory();
 
   // 로컬 스토리지에서 커스텀 프리셋 로드
   useEffect(() => {
@@ -64,6 +66,7 @@ export const VerticalColorPicker = ({ selectedColor, onColorSelect }: VerticalCo
   const handleColorSelect = (color: string) => {
     onColorSelect(color);
     setInputColor(color);
+    addToHistory(color);
   };
 
   return (
@@ -98,6 +101,26 @@ export const VerticalColorPicker = ({ selectedColor, onColorSelect }: VerticalCo
         </div>
       </div>
 
+      {/* 최근 사용 색상 (팔레트와 스포이트 공용) */}
+      {colorHistory.length > 0 && (
+        <div>
+          <div className="text-xs font-medium text-muted-foreground mb-3 text-center">Recent Colors</div>
+          <div className="grid grid-cols-4 gap-2">
+            {colorHistory.map((color) => (
+              <button
+                key={color}
+                className={`w-10 h-10 rounded-full border-2 transition-all hover:scale-110 ${
+                  selectedColor === color ? 'border-primary ring-2 ring-primary/50' : 'border-border'
+                }`}
+                style={{ backgroundColor: color }}
+                onClick={() => handleColorSelect(color)}
+                title={color.toUpperCase()}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* 커스텀 프리셋 */}
       <div>
         <div className="text-xs font-medium text-muted-foreground mb-3 text-center">
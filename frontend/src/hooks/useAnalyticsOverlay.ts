@@ -0,0 +1,115 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { getConfirmationsFromEnv, getConfirmedBlockNumber } from '@/lib/contract';
+import { getPixelEventLog, getProgrammableTxLog, type PixelHistoryEvent } from '@/lib/pixelEventLog';
+import type { CanvasOverlay } from '@/lib/canvasRenderer';
+import {
+  buildAgeTexture,
+  buildHeatmapTexture,
+  buildProvenanceTexture,
+  drawAnalyticsTexture,
+  type AnalyticsMode
+} from '@/lib/canvasAnalytics';
+
+export type HeatmapWindow = '1h' | '24h' | '7d' | 'all';
+
+export const HEATMAP_WINDOW_MS: Record<HeatmapWindow, number> = {
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  all: Infinity
+};
+
+// Live sync advances every few seconds; textures are rebuilt at most this often
+const REFRESH_INTERVAL_MS = 15000;
+
+/**
+ * Analytical overlay over the live canvas (overwrite heatmap, pixel age or
+ * placement type), computed from the shared event log. Nothing is fetched or
+ * computed while no mode is selected.
+ */
+export const useAnalyticsOverlay = (syncedBlock: number | null, boardSize: number) => {
+  const [mode, setMode] = useState<AnalyticsMode | null>(null);
+  const [opacity, setOpacity] = useState(0.7);
+  const [heatmapWindow, setHeatmapWindow] = useState<HeatmapWindow>('24h');
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadProgress, setLoadProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  // The log's event array is extended in place, so each load is a new object
+  const [data, setData] = useState<{
+    mode: AnalyticsMode;
+    events: readonly PixelHistoryEvent[];
+    loadedAt: number;
+  } | null>(null);
+  const dataRef = useRef(data);
+  dataRef.current = data;
+
+  useEffect(() => {
+    if (!mode) {
+      setIsLoading(false);
+      return;
+    }
+    const needsProvenance = mode === 'provenance';
+    let cancelled = false;
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        // The shared logs never roll back, so stop short of blocks a reorg could still drop
+        const target = syncedBlock != null
+          ? Math.max(0, syncedBlock - getConfirmationsFromEnv())
+          : await getConfirmedBlockNumber();
+        const events = await getPixelEventLog().ensureLoaded(target, fraction => {
+          if (!cancelled) setLoadProgress(fraction);
+        });
+        if (needsProvenance) await getProgrammableTxLog().ensureLoaded(target);
+        if (cancelled) return;
+        setData({ mode, events, loadedAt: Date.now() });
+      } catch (e) {
+        if (cancelled) return;
+        console.error('Failed to load overlay data:', e);
+        setError(e instanceof Error ? e.message : 'Failed to load events');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    // Switching modes loads right away; later sync ticks wait for the throttle
+    const previous = dataRef.current;
+    const delay = previous?.mode === mode ? Math.max(0, previous.loadedAt + REFRESH_INTERVAL_MS - Date.now()) : 0;
+    const timer = setTimeout(load, delay);
+    return () => {
+      clearTimeout(timer);
+      cancelled = true;
+    };
+  }, [mode, syncedBlock]);
+
+  const texture = useMemo(() => {
+    if (!mode || !data || data.mode !== mode) return null;
+    const txLog = getProgrammableTxLog();
+    switch (mode) {
+      case 'heatmap':
+        return buildHeatmapTexture(data.events, boardSize, data.loadedAt - HEATMAP_WINDOW_MS[heatmapWindow], data.loadedAt);
+      case 'age':
+        return buildAgeTexture(data.events, boardSize, data.loadedAt);
+      case 'provenance':
+        return buildProvenanceTexture(data.events, boardSize, ev => txLog.has(ev.transactionHash));
+    }
+  }, [mode, data, boardSize, heatmapWindow]);
+
+  const overlays = useMemo((): CanvasOverlay[] => texture
+    ? [{ key: `analytics-${mode}`, draw: (ctx, viewport) => drawAnalyticsTexture(ctx, viewport, texture, opacity) }]
+    : [], [texture, mode, opacity]);
+
+  return {
+    mode,
+    setMode,
+    opacity,
+    setOpacity,
+    heatmapWindow,
+    setHeatmapWindow,
+    isLoading,
+    loadProgress,
+    error,
+    legend: texture?.legend ?? null,
+    overlays
+  };
+};
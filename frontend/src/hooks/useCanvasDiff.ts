@@ -0,0 +1,101 @@
+import { useState, useRef, useCallback, useMemo } from 'react';
+import { getConfirmedBlockNumber } from '@/lib/contract';
+import { getPixelEventLog } from '@/lib/pixelEventLog';
+import { getCanvasHistory, type CanvasHistory, type HistoryPixel } from '@/lib/canvasHistory';
+import { diffCanvasHistory, type CanvasDiff } from '@/lib/canvasDiff';
+import type { TimeTravelTarget } from '@/hooks/useTimeTravel';
+
+export type CanvasDiffView = 'before' | 'after' | 'changes';
+
+const resolvePosition = (history: CanvasHistory, target: TimeTravelTarget) =>
+  target.kind === 'block' ? history.positionAtBlock(target.block) : history.positionAtTime(target.time);
+
+/**
+ * Compares the canvas between two blocks or dates using the shared event log.
+ * The page shows `pixels` for the selected view ("before", "after" or only
+ * the changed pixels) and highlights `highlighted` on top.
+ */
+export const useCanvasDiff = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadProgress, setLoadProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<CanvasHistory | null>(null);
+  const [diff, setDiff] = useState<CanvasDiff | null>(null);
+  const [view, setView] = useState<CanvasDiffView>('after');
+  const [showHighlights, setShowHighlights] = useState(true);
+  // Restricts highlights to the pixels changed by one address
+  const [focusedAddress, setFocusedAddress] = useState<string | null>(null);
+  const loadTokenRef = useRef(0);
+
+  const compare = useCallback(async (from: TimeTravelTarget, to: TimeTravelTarget) => {
+    const token = ++loadTokenRef.current;
+    setIsOpen(true);
+    setIsLoading(true);
+    setError(null);
+    setLoadProgress(0);
+    setFocusedAddress(null);
+    try {
+      const head = await getConfirmedBlockNumber();
+      const events = await getPixelEventLog().ensureLoaded(head, fraction => {
+        if (token === loadTokenRef.current) setLoadProgress(fraction);
+      });
+      if (token !== loadTokenRef.current) return;
+
+      const shared = getCanvasHistory(events);
+      setHistory(shared);
+      setDiff(diffCanvasHistory(shared, resolvePosition(shared, from), resolvePosition(shared, to)));
+    } catch (e) {
+      if (token !== loadTokenRef.current) return;
+      console.error('Failed to compute canvas diff:', e);
+      setError(e instanceof Error ? e.message : 'Failed to load history');
+    } finally {
+      if (token === loadTokenRef.current) setIsLoading(false);
+    }
+  }, []);
+
+  const close = useCallback(() => {
+    loadTokenRef.current++;
+    setIsOpen(false);
+    setIsLoading(false);
+    setHistory(null);
+    setDiff(null);
+    setFocusedAddress(null);
+  }, []);
+
+  const pixels = useMemo((): HistoryPixel[] => {
+    if (!history || !diff) return [];
+    if (view === 'before') return history.stateAt(diff.fromPosition);
+    if (view === 'after') return history.stateAt(diff.toPosition);
+    return diff.changed.map(entry => entry.after);
+  }, [history, diff, view]);
+
+  const highlighted = useMemo(() => {
+    if (!diff) return [];
+    const focus = focusedAddress?.toLowerCase();
+    const entries = focus
+      ? diff.changed.filter(entry => entry.after.owner?.toLowerCase() === focus)
+      : diff.changed;
+    return entries.map(({ x, y }) => ({ x, y }));
+  }, [diff, focusedAddress]);
+
+  return {
+    isOpen,
+    isLoading,
+    loadProgress,
+    error,
+    // True once a diff is ready to display
+    isReady: isOpen && !!diff,
+    diff,
+    view,
+    setView,
+    showHighlights,
+    setShowHighlights,
+    focusedAddress,
+    setFocusedAddress,
+    pixels,
+    highlighted,
+    compare,
+    close
+  };
+};
@@ -1,14 +1,26 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { createPublicClient, webSocket } from 'viem';
-import { loadSnapshot, saveSnapshot } from '@/lib/snapshot';
+import { toast } from 'sonner';
+import { loadSnapshot, saveSnapshot, clearSnapshot, type SnapshotScope } from '@/lib/snapshot';
+import type { PixelChangeSet, PixelCoord } from '@/lib/canvasRenderer';
+import { bootstrapFromTiles, mapWithConcurrency } from '@/lib/canvasBootstrap';
+import { PixelChangeJournal, RecentBlockHashes } from '@/lib/chainReorg';
+import { orderPixelEvents } from '@/lib/pixelEventOrder';
 import { 
   queryPixelPlacedEvents, 
+  fetchBlockHeader,
+  fetchPixelEventsChunked,
+  getInitialEventFromBlock,
+  getInitialSyncMode,
+  fetchCanvasInfo,
   // queryFundingEvents, 
   getCurrentBlockNumber,
   ABI,
   CONTRACT_ADDRESS,
   getWsUrlFromEnv,
-  getConfirmationsFromEnv
+  getConfirmationsFromEnv,
+  getChainIdFromEnv,
+  type PixelPlacedEvent
 } from '@/lib/contract';
 
 interface Pixel {
@@ -21,6 +33,56 @@ interface Pixel {
   irysPayloadLength?: number;
 }
 
+// Cached canvases belong to one deployment, so switching chain or contract starts fresh
+const SNAPSHOT_SCOPE: SnapshotScope = { chainId: getChainIdFromEnv(), contract: CONTRACT_ADDRESS };
+
+// Blocks whose hashes are kept for reorg detection; deeper reorgs trigger a full resync
+const REORG_WINDOW = Math.max(32, getConfirmationsFromEnv() * 4);
+
+// A failed initial sync is retried by polling after a delay that doubles per failure, up to the cap
+const INITIAL_SYNC_RETRY_MS = 5000;
+const INITIAL_SYNC_RETRY_MAX_MS = 60000;
+const INITIAL_SYNC_ERROR_TOAST = 'initial-sync-error';
+
+const pixelKey = (x: number, y: number) => `${x}_${y}`;
+
+const toPixel = (ev: PixelPlacedEvent): Pixel => ({
+  x: Number(ev.x),
+  y: Number(ev.y),
+  color: `#${(ev.color || '').replace('0x', '').padStart(6, '0').slice(0, 6)}`,
+  owner: ev.user,
+  timestamp: Number(ev.timestamp) * 1000,
+});
+
+/**
+ * The one path PixelPlaced events take onto the board, for every sync path:
+ * in chain order (block, then log index) so placements on one pixel within a
+ * block resolve the way the contract applied them, and journaled so they can
+ * be rolled back on a reorg. Splits the applied pixels into new and repainted.
+ */
+function applyPixelEvents(
+  map: Map<string, Pixel>,
+  journal: PixelChangeJournal<Pixel>,
+  events: readonly PixelPlacedEvent[]
+): { added: Pixel[]; changed: Pixel[] } {
+  const added: Pixel[] = [];
+  const changed: Pixel[] = [];
+  for (const ev of orderPixelEvents(events)) {
+    const p = toPixel(ev);
+    if (map.has(pixelKey(p.x, p.y))) changed.push(p);
+    else added.push(p);
+    journal.apply(map, ev.blockNumber, p);
+  }
+  return { added, changed };
+}
+
+// Initial sync progress: canvas tiles read, or blocks of PixelPlaced logs replayed
+export interface SyncProgress {
+  phase: 'tiles' | 'events';
+  done: number;
+  total: number;
+}
+
 export const useCanvasSync = () => {
   const wsClientRef = useRef<any>(null);
   const unwatchPixelRef = useRef<null | (() => void)>(null);
@@ -29,96 +91,175 @@ export const useCanvasSync = () => {
   const pollingTimerRef = useRef<any>(null);
   
   const [confirmedPixels, setConfirmedPixels] = useState<Pixel[]>([]);
+  // Latest batch of live updates, so the canvas can repaint only what changed
+  const [pixelChanges, setPixelChanges] = useState<PixelChangeSet | null>(null);
+  // Bumped when the board is replaced rather than patched by a change set
+  // (initial sync, reorg, state set by callers): the canvas reconciles in full only then
+  const [boardVersion, setBoardVersion] = useState(0);
+  // Current board by coordinate; the source the sync applies changes to
+  const pixelMapRef = useRef<Map<string, Pixel>>(new Map());
+  // Array last published from pixelMapRef, to tell it apart from state set by callers
+  const publishedPixelsRef = useRef<Pixel[] | null>(null);
   // Funding removed
   const [syncedBlock, setSyncedBlock] = useState<number | null>(null);
   const [currentBlock, setCurrentBlock] = useState<number>(0);
   const [confirmedBlock, setConfirmedBlock] = useState<number>(0);
+  const [syncProgress, setSyncProgress] = useState<SyncProgress | null>(null);
+  // Pixels last changed in blocks that do not have enough confirmations yet
+  const [tentativePixels, setTentativePixels] = useState<PixelCoord[]>([]);
+  const recentBlocksRef = useRef(new RecentBlockHashes(REORG_WINDOW));
+  const journalRef = useRef(new PixelChangeJournal<Pixel>());
+  // Earliest block whose state the journal can reconstruct
+  const journalBaseRef = useRef(0);
+  // Initial sync and polls never overlap
+  const isSyncingRef = useRef(false);
+  // Consecutive initial sync failures, and when polling may try again
+  const initialSyncFailuresRef = useRef(0);
+  const initialSyncRetryAtRef = useRef(0);
+  // Snapshots hold confirmed blocks only; full: every tile must be rewritten
+  const lastSavedBlockRef = useRef(-1);
+  const needsFullSaveRef = useRef(false);
+  // Snapshot writes run one at a time, in order
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
 
   const requiredConfs = getConfirmationsFromEnv();
-  // Allow configuring the initial from-block to replay all events after reloads
-  const initialFromBlockEnv = Number((import.meta as any).env?.VITE_INITIAL_EVENT_FROM_BLOCK ?? '0');
-
-  // chunked events fetcher to avoid provider/log limits
-  const fetchPixelEventsChunked = useCallback(async (fromBlock: number, toBlock: number, chunkSize = 2000) => {
-    const all: Awaited<ReturnType<typeof queryPixelPlacedEvents>> = []
-    if (fromBlock > toBlock) return all
-    let start = fromBlock
-    while (start <= toBlock) {
-      const end = Math.min(start + chunkSize - 1, toBlock)
-      const chunk = await queryPixelPlacedEvents(start, end)
-      if (chunk.length) all.push(...chunk)
-      start = end + 1
+
+  const replaceConfirmedPixels = useCallback((pixels: Pixel[]) => {
+    setConfirmedPixels(pixels);
+    setBoardVersion(version => version + 1);
+  }, []);
+
+  // Publish the board; `changes` marks it as patched by live updates rather than replaced
+  const publishPixels = useCallback((map: Map<string, Pixel>, changes?: { added: Pixel[]; changed: Pixel[] }) => {
+    const pixels = Array.from(map.values());
+    pixelMapRef.current = map;
+    publishedPixelsRef.current = pixels;
+    if (changes) {
+      setConfirmedPixels(pixels);
+      setPixelChanges(prev => ({ seq: (prev?.seq ?? 0) + 1, ...changes }));
+    } else {
+      replaceConfirmedPixels(pixels);
     }
-    return all
-  }, [])
+  }, [replaceConfirmedPixels]);
+
+  // Pixels still on the board whose latest change is in one of the last requiredConfs blocks up to tip
+  const updateTentative = useCallback((tip: number) => {
+    const map = pixelMapRef.current;
+    setTentativePixels(journalRef.current.changedBetween(tip - requiredConfs, tip)
+      .filter(({ x, y }) => map.has(pixelKey(x, y))));
+  }, [requiredConfs]);
 
   // Initial sync
   const performInitialSync = useCallback(async () => {
+    isSyncingRef.current = true;
     try {
-      const snap = loadSnapshot();
+      const loaded = await loadSnapshot(SNAPSHOT_SCOPE).catch((e) => {
+        console.warn('Failed to load canvas snapshot:', e);
+        return null;
+      });
+      if (loaded?.rejected) console.warn(`Discarded canvas snapshot: ${loaded.rejected}`);
+      if (loaded?.migratedFrom != null) console.info(`Upgraded canvas snapshot from schema version ${loaded.migratedFrom}`);
+      const snap = loaded?.snapshot ?? null;
       if (snap) {
-        setConfirmedPixels(snap.pixels);
-        setSyncedBlock(snap.blockNumber);
+        replaceConfirmedPixels(snap.pixels);
       }
 
+      const journal = journalRef.current;
+      journal.clear();
+      recentBlocksRef.current.clear();
       const current = await getCurrentBlockNumber();
-      // If we have a snapshot, continue from next block; otherwise, start from configured block (default 0)
-      const from = snap?.blockNumber != null ? snap.blockNumber + 1 : Math.max(0, initialFromBlockEnv);
-      
-      // Only sync if there are new blocks to process
-      if (from > current) {
-        setSyncedBlock(current);
-        return;
-      }
-      
-      const pixelEvents = await fetchPixelEventsChunked(from, current, 2000);
+      // 0 is what getCurrentBlockNumber reports when the RPC call fails
+      if (!current) throw new Error('Could not read the current block number');
+      // Only confirmed blocks are synced up front; newer ones arrive through polling, which handles reorgs
+      const target = Math.max(0, current - requiredConfs);
+      const map = new Map<string, Pixel>();
+      let base = getInitialEventFromBlock() - 1;
 
-      // Process pixel events
-      const key = (x: bigint, y: bigint) => `${x.toString()}_${y.toString()}`;
-      const latestByCoord = new Map<string, typeof pixelEvents[number]>();
-      
-      for (const ev of pixelEvents) {
-        const k = key(ev.x, ev.y);
-        const prev = latestByCoord.get(k);
-        if (!prev || ev.blockNumber >= prev.blockNumber) {
-          latestByCoord.set(k, ev);
+      if (snap) {
+        for (const p of snap.pixels) map.set(pixelKey(p.x, p.y), p);
+        base = snap.blockNumber;
+        lastSavedBlockRef.current = snap.blockNumber;
+        needsFullSaveRef.current = false;
+      } else {
+        lastSavedBlockRef.current = -1;
+        needsFullSaveRef.current = true;
+        // Without a snapshot, read the canvas in tiles instead of replaying its whole history;
+        // polling then tails events from the block the tiles were read at
+        if (target > 0 && getInitialSyncMode() === 'tiles') {
+          try {
+            const { width } = await fetchCanvasInfo();
+            const { pixels } = await bootstrapFromTiles({
+              boardSize: width,
+              blockNumber: target,
+              onProgress: (done, total) => setSyncProgress({ phase: 'tiles', done, total }),
+            });
+            for (const p of pixels) map.set(pixelKey(p.x, p.y), p);
+            base = target;
+          } catch (e) {
+            console.warn('Tile bootstrap failed, replaying PixelPlaced events instead:', e);
+          }
         }
       }
 
-      const toHex = (color: string) => {
-        const raw = (color || '').toString().replace('0x', '');
-        return `#${raw.padStart(6, '0').slice(0, 6)}`;
-      };
-      const syncedPixels: Pixel[] = Array.from(latestByCoord.values()).map(ev => ({
-        x: Number(ev.x),
-        y: Number(ev.y),
-        color: toHex(ev.color),
-        owner: ev.user,
-        timestamp: Number(ev.timestamp) * 1000,
-      }));
-
-      setConfirmedPixels(prev => {
-        const map = new Map(prev.map(p => [`${p.x}_${p.y}`, p]));
-        for (const p of syncedPixels) {
-          map.set(`${p.x}_${p.y}`, p);
-        }
-        return Array.from(map.values());
-      });
-
-      setSyncedBlock(current);
-
-      // Save snapshot
-      setTimeout(() => {
-        saveSnapshot({
-          blockNumber: current,
-          pixels: Array.from(new Map(confirmedPixels.concat(syncedPixels).map(p => [`${p.x}_${p.y}`, p])).values()),
+      // Replay confirmed blocks the snapshot or tiles do not cover yet
+      if (base < target) {
+        const from = base + 1;
+        const pixelEvents = await fetchPixelEventsChunked(from, target, 2000, (syncedTo) => {
+          setSyncProgress({ phase: 'events', done: syncedTo - from + 1, total: target - from + 1 });
         });
-      }, 0);
+        // Journaled so the next snapshot write only touches the tiles these changed
+        applyPixelEvents(map, journal, pixelEvents);
+      }
+
+      const synced = Math.max(base, target);
+      journalBaseRef.current = snap ? snap.blockNumber : synced;
+      try {
+        recentBlocksRef.current.record(await fetchBlockHeader(synced));
+      } catch (e) {
+        console.warn(`Failed to read block ${synced} for reorg tracking:`, e);
+      }
 
+      publishPixels(map);
+      setTentativePixels([]);
+      setSyncedBlock(synced);
+      if (initialSyncFailuresRef.current) toast.dismiss(INITIAL_SYNC_ERROR_TOAST);
+      initialSyncFailuresRef.current = 0;
     } catch (e) {
-      
+      const failures = ++initialSyncFailuresRef.current;
+      const delay = Math.min(INITIAL_SYNC_RETRY_MS * 2 ** (failures - 1), INITIAL_SYNC_RETRY_MAX_MS);
+      initialSyncRetryAtRef.current = Date.now() + delay;
+      console.error(`Initial canvas sync failed (attempt ${failures}); retrying in ${delay / 1000}s:`, e);
+      toast.error('Could not load the canvas, retrying...', { id: INITIAL_SYNC_ERROR_TOAST, duration: Infinity });
+      // Polling retries the initial sync until it establishes a starting block again
+      setSyncedBlock(null);
+    } finally {
+      setSyncProgress(null);
+      isSyncingRef.current = false;
     }
-  }, [confirmedPixels]);
+  }, [requiredConfs, publishPixels, replaceConfirmedPixels]);
+
+  // Undo blocks that were reorganized away and resume tailing from the fork point
+  const handleReorg = useCallback(async (tip: number) => {
+    const forkPoint = await recentBlocksRef.current.findForkPoint(fetchBlockHeader);
+    if (forkPoint == null || forkPoint < journalBaseRef.current) {
+      console.warn(`Chain reorg deeper than ${REORG_WINDOW} blocks below ${tip}; resyncing the canvas`);
+      toast.warning('Chain reorganization detected, reloading the canvas');
+      await clearSnapshot(SNAPSHOT_SCOPE).catch(() => undefined);
+      await performInitialSync();
+      return;
+    }
+
+    const map = new Map(pixelMapRef.current);
+    const reverted = journalRef.current.rollback(map, forkPoint);
+    recentBlocksRef.current.truncateAfter(forkPoint);
+    // Saved blocks were orphaned too: the next write replaces the whole snapshot
+    if (forkPoint < lastSavedBlockRef.current) needsFullSaveRef.current = true;
+    console.warn(`Chain reorg after block ${forkPoint}: rolled back ${reverted.length} pixel changes`);
+
+    publishPixels(map);
+    updateTentative(forkPoint);
+    setSyncedBlock(forkPoint);
+  }, [performInitialSync, publishPixels, updateTentative]);
 
   // Setup watchers with polling only (Irys testnet has no WS)
   const setupWatchers = useCallback(() => {
@@ -146,41 +287,71 @@ export const useCanvasSync = () => {
       const POLLING_INTERVAL = 5000;
       
       pollingTimerRef.current = setInterval(async () => {
+        if (isSyncingRef.current) return;
+        // Tail only once the initial sync has established a starting block; until then, retry it
+        if (syncedBlock == null) {
+          if (initialSyncFailuresRef.current && Date.now() >= initialSyncRetryAtRef.current) await performInitialSync();
+          return;
+        }
+        isSyncingRef.current = true;
         try {
-          const from = (syncedBlock ?? 0) + 1;
+          const from = syncedBlock + 1;
           const current = await getCurrentBlockNumber();
           
           if (from <= current) {
+            const recentBlocks = recentBlocksRef.current;
+            // Headers of the new blocks (at most the reorg window) must chain onto the last synced block
+            const headerFrom = Math.max(from, current - REORG_WINDOW + 1);
+            const blockNumbers = Array.from({ length: current - headerFrom + 1 }, (_, i) => headerFrom + i);
+            const headers = await mapWithConcurrency(blockNumbers, 4, fetchBlockHeader);
+            const previous = headerFrom === from ? null : await fetchBlockHeader(syncedBlock);
+            const recordedTip = recentBlocks.get(syncedBlock);
+            const isOrphaned = previous
+              ? recordedTip != null && previous.hash !== recordedTip
+              : !recentBlocks.extends(headers[0]);
+            if (isOrphaned) {
+              await handleReorg(syncedBlock);
+              return;
+            }
+            // The chain moved while the headers were read; try again on the next tick
+            for (let i = 1; i < headers.length; i++) {
+              if (headers[i].parentHash !== headers[i - 1].hash) return;
+            }
+
+            // Throws on RPC errors, so a failed query leaves syncedBlock for the next poll to retry
             const pixelEvents = await queryPixelPlacedEvents(from, current);
+            const hashByBlock = new Map(headers.map(header => [header.number, header.hash]));
+            // Logs from a block that is not on the chain the headers describe
+            if (pixelEvents.some(ev => ev.blockHash && hashByBlock.has(ev.blockNumber) && hashByBlock.get(ev.blockNumber) !== ev.blockHash)) {
+              return;
+            }
 
             if (pixelEvents.length) {
-              setConfirmedPixels(prev => {
-                const map = new Map(prev.map(p => [`${p.x}_${p.y}`, p]));
-                for (const ev of pixelEvents) {
-                  map.set(`${Number(ev.x)}_${Number(ev.y)}`, {
-                    x: Number(ev.x),
-                    y: Number(ev.y),
-                    color: `#${(ev.color as string).slice(2)}`,
-                    owner: ev.user as string,
-                    timestamp: Number(ev.timestamp) * 1000,
-                  });
-                }
-                return Array.from(map.values());
-              });
+              const map = new Map(pixelMapRef.current);
+              publishPixels(map, applyPixelEvents(map, journalRef.current, pixelEvents));
             }
 
+            for (const header of headers) recentBlocks.record(header);
+            updateTentative(current);
+            // Entries stay until their blocks are both saved and below the reorg window
+            const keepAfter = current - REORG_WINDOW;
+            journalRef.current.prune(needsFullSaveRef.current ? keepAfter : Math.min(lastSavedBlockRef.current, keepAfter));
+            journalBaseRef.current = Math.max(journalBaseRef.current, keepAfter);
+
             // funding removed
             setSyncedBlock(current);
           }
         } catch (error) {
-          
+          console.warn(`Polling after block ${syncedBlock} failed; retrying on the next tick:`, error);
+        } finally {
+          isSyncingRef.current = false;
         }
       }, POLLING_INTERVAL);
     };
 
     // Always use polling on Irys testnet
     setupPolling();
-  }, [confirmedPixels, syncedBlock]);
+  }, [syncedBlock, performInitialSync, handleReorg, publishPixels, updateTentative]);
 
   // Block tracking
   useEffect(() => {
@@ -199,15 +370,38 @@ export const useCanvasSync = () => {
     return () => timer && clearTimeout(timer);
   }, [requiredConfs]);
 
-  // Save snapshot when state changes
+  // Keep the coordinate index in step with state set from outside the sync
+  useEffect(() => {
+    if (confirmedPixels === publishedPixelsRef.current) return;
+    pixelMapRef.current = new Map(confirmedPixels.map(p => [pixelKey(p.x, p.y), p]));
+  }, [confirmedPixels]);
+
+  // Save the board as of the newest confirmed block, rewriting only the tiles changed since the last save
   useEffect(() => {
-    if (syncedBlock != null && confirmedBlock >= syncedBlock - requiredConfs) {
-      saveSnapshot({
-        blockNumber: syncedBlock,
-        pixels: confirmedPixels,
+    if (syncedBlock == null) return;
+    const saveBlock = Math.max(journalBaseRef.current, syncedBlock - requiredConfs);
+    const fromBlock = lastSavedBlockRef.current;
+    const full = needsFullSaveRef.current;
+    if (saveBlock <= fromBlock && !full) return;
+
+    // Unconfirmed changes are saved as the values they replaced
+    const unconfirmed = journalRef.current.valuesAt(saveBlock);
+    const pixels = unconfirmed.size
+      ? confirmedPixels
+          .filter(p => !unconfirmed.has(pixelKey(p.x, p.y)))
+          .concat([...unconfirmed.values()].filter((p): p is Pixel => !!p))
+      : confirmedPixels;
+    const changed = full ? undefined : journalRef.current.changedBetween(fromBlock, saveBlock);
+    lastSavedBlockRef.current = saveBlock;
+    needsFullSaveRef.current = false;
+    saveQueueRef.current = saveQueueRef.current
+      .then(() => saveSnapshot(SNAPSHOT_SCOPE, { blockNumber: saveBlock, pixels }, changed))
+      .catch((e) => {
+        console.error('Failed to save canvas snapshot:', e);
+        // Retry everything with the next save
+        needsFullSaveRef.current = true;
       });
-    }
-  }, [confirmedPixels, syncedBlock, confirmedBlock, requiredConfs]);
+  }, [confirmedPixels, syncedBlock, requiredConfs]);
 
   // Setup initial sync and watchers
   useEffect(() => {
@@ -230,9 +424,13 @@ export const useCanvasSync = () => {
 
   return {
     confirmedPixels,
+    pixelChanges,
+    boardVersion,
     syncedBlock,
     currentBlock,
     confirmedBlock,
-    setConfirmedPixels
+    syncProgress,
+    tentativePixels,
+    setConfirmedPixels: replaceConfirmedPixels
   };
 };
\ No newline at end of file
@@ -0,0 +1,158 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { toast } from 'sonner';
+import type { CanvasOverlay } from '@/lib/canvasRenderer';
+import {
+  buildBoardColorIndex,
+  compareTemplate,
+  createTemplateId,
+  decodeTemplateImage,
+  drawTemplate,
+  drawTemplateMismatches,
+  loadTemplates,
+  readImageFile,
+  saveTemplates,
+  type CanvasTemplate,
+  type TemplateImage,
+  type TemplateProgress
+} from '@/lib/canvasTemplates';
+
+const DEFAULT_OPACITY = 0.5;
+const MISMATCH_COLOR = '#ef4444';
+
+/**
+ * Reference-image templates pinned over the canvas, persisted in localStorage.
+ * Array order is z-order (last on top). Progress compares each template
+ * against the given board pixels (the live confirmed pixels).
+ */
+export const useCanvasTemplates = (
+  boardPixels: readonly { x: number; y: number; color: string }[],
+  boardSize: number
+) => {
+  const [templates, setTemplates] = useState<CanvasTemplate[]>(loadTemplates);
+  const [images, setImages] = useState<Record<string, TemplateImage>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [showMismatches, setShowMismatches] = useState(true);
+  const decodingRef = useRef<Set<string>>(new Set());
+  const storageWarnedRef = useRef(false);
+
+  useEffect(() => {
+    if (saveTemplates(templates)) {
+      storageWarnedRef.current = false;
+    } else if (!storageWarnedRef.current) {
+      storageWarnedRef.current = true;
+      toast.error('Templates are too large to save in browser storage; they will be lost on reload');
+    }
+  }, [templates]);
+
+  // Decode images for templates restored from storage
+  useEffect(() => {
+    for (const template of templates) {
+      if (images[template.id] || errors[template.id] || decodingRef.current.has(template.id)) continue;
+      decodingRef.current.add(template.id);
+      decodeTemplateImage(template.src)
+        .then(image => setImages(prev => ({ ...prev, [template.id]: image })))
+        .catch((error: unknown) => setErrors(prev => ({
+          ...prev,
+          [template.id]: error instanceof Error ? error.message : 'Failed to load image'
+        })))
+        .finally(() => decodingRef.current.delete(template.id));
+    }
+  }, [templates, images, errors]);
+
+  const addTemplate = useCallback(async (src: string, name: string) => {
+    // Decode first so broken images never get saved
+    const image = await decodeTemplateImage(src);
+    const template: CanvasTemplate = {
+      id: createTemplateId(),
+      name,
+      src,
+      x: 0,
+      y: 0,
+      opacity: DEFAULT_OPACITY,
+      visible: true
+    };
+    setImages(prev => ({ ...prev, [template.id]: image }));
+    setTemplates(prev => [...prev, template]);
+    return template;
+  }, []);
+
+  const addFromFile = useCallback(async (file: File) => {
+    return addTemplate(await readImageFile(file), file.name);
+  }, [addTemplate]);
+
+  const addFromUrl = useCallback(async (url: string) => {
+    const name = url.split('/').pop()?.split('?')[0] || 'Template';
+    return addTemplate(url, name);
+  }, [addTemplate]);
+
+  const updateTemplate = useCallback((id: string, patch: Partial<Omit<CanvasTemplate, 'id' | 'src'>>) => {
+    setTemplates(prev => prev.map(t => (t.id === id ? { ...t, ...patch } : t)));
+  }, []);
+
+  const removeTemplate = useCallback((id: string) => {
+    setTemplates(prev => prev.filter(t => t.id !== id));
+    setImages(({ [id]: _removed, ...rest }) => rest);
+    setErrors(({ [id]: _removed, ...rest }) => rest);
+  }, []);
+
+  /** Move a template one step up (+1, drawn later) or down (-1) in z-order */
+  const moveTemplate = useCallback((id: string, direction: -1 | 1) => {
+    setTemplates(prev => {
+      const index = prev.findIndex(t => t.id === id);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
+  const boardIndex = useMemo(
+    () => (templates.length ? buildBoardColorIndex(boardPixels, boardSize) : null),
+    [boardPixels, boardSize, templates.length]
+  );
+
+  const progress = useMemo(() => {
+    const result: Record<string, TemplateProgress> = {};
+    if (!boardIndex) return result;
+    for (const template of templates) {
+      const image = images[template.id];
+      if (image) result[template.id] = compareTemplate(template, image, boardIndex, boardSize);
+    }
+    return result;
+  }, [templates, images, boardIndex, boardSize]);
+
+  const overlays = useMemo((): CanvasOverlay[] => {
+    const result: CanvasOverlay[] = [];
+    for (const template of templates) {
+      const image = images[template.id];
+      if (!template.visible || !image) continue;
+      const templateProgress = progress[template.id];
+      result.push({
+        key: `template-${template.id}`,
+        draw: (ctx, viewport) => {
+          drawTemplate(ctx, viewport, template, image);
+          if (showMismatches && templateProgress) {
+            drawTemplateMismatches(ctx, viewport, template, image, templateProgress, boardSize, MISMATCH_COLOR);
+          }
+        }
+      });
+    }
+    return result;
+  }, [templates, images, progress, showMismatches, boardSize]);
+
+  return {
+    templates,
+    images,
+    errors,
+    progress,
+    showMismatches,
+    setShowMismatches,
+    overlays,
+    addFromFile,
+    addFromUrl,
+    updateTemplate,
+    removeTemplate,
+    moveTemplate
+  };
+};
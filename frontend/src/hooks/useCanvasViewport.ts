@@ -0,0 +1,152 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import {
+  DEFAULT_ZOOM,
+  MAX_ZOOM,
+  centerOn,
+  clampPan,
+  getFitZoom,
+  getMinZoom,
+  zoomAtPoint,
+  type ScreenPoint,
+  type ViewportState
+} from '@/lib/canvasViewport';
+
+// Fraction of the remaining (log-scale) zoom distance covered per frame
+const ZOOM_EASING = 0.25;
+const ZOOM_SETTLE_EPSILON = 0.002;
+
+/**
+ * Zoom/pan state for the pixel canvas with cursor-anchored, eased zooming.
+ * All points are in canvas (surface) pixels.
+ */
+export const useCanvasViewport = (boardSize: number, width: number, height: number) => {
+  const [view, setViewState] = useState<ViewportState>({ zoom: DEFAULT_ZOOM, pan: { x: 0, y: 0 } });
+  const viewRef = useRef(view);
+  const boundsRef = useRef({ boardSize, width, height });
+  const animationRef = useRef<{ targetZoom: number; anchor: ScreenPoint; frame: number } | null>(null);
+  // Set by the first zoom/pan/center request; resize clamping doesn't count
+  const [hasNavigated, setHasNavigated] = useState(false);
+
+  boundsRef.current = { boardSize, width, height };
+
+  const commit = useCallback((next: ViewportState) => {
+    viewRef.current = next;
+    setViewState(next);
+  }, []);
+
+  const stopAnimation = useCallback(() => {
+    if (animationRef.current) {
+      cancelAnimationFrame(animationRef.current.frame);
+      animationRef.current = null;
+    }
+  }, []);
+
+  const step = useCallback(() => {
+    const animation = animationRef.current;
+    if (!animation) return;
+    const { boardSize: size, width: w, height: h } = boundsRef.current;
+    const current = viewRef.current;
+    const logDistance = Math.log(animation.targetZoom / current.zoom);
+
+    if (Math.abs(logDistance) < ZOOM_SETTLE_EPSILON) {
+      commit(zoomAtPoint(current, animation.targetZoom, animation.anchor, size, w, h));
+      animationRef.current = null;
+      return;
+    }
+
+    const nextZoom = current.zoom * Math.exp(logDistance * ZOOM_EASING);
+    commit(zoomAtPoint(current, nextZoom, animation.anchor, size, w, h));
+    animation.frame = requestAnimationFrame(step);
+  }, [commit]);
+
+  /**
+   * Zoom to an absolute level keeping `anchor` fixed (defaults to the viewport center)
+   */
+  const zoomTo = useCallback((targetZoom: number, anchor?: ScreenPoint, animate = true) => {
+    const { boardSize: size, width: w, height: h } = boundsRef.current;
+    const point = anchor ?? { x: w / 2, y: h / 2 };
+    setHasNavigated(true);
+    const clamped = Math.max(getMinZoom(size, w, h), Math.min(MAX_ZOOM, targetZoom));
+
+    if (!animate) {
+      stopAnimation();
+      commit(zoomAtPoint(viewRef.current, clamped, point, size, w, h));
+      return;
+    }
+    if (animationRef.current) {
+      animationRef.current.targetZoom = clamped;
+      animationRef.current.anchor = point;
+      return;
+    }
+    animationRef.current = { targetZoom: clamped, anchor: point, frame: requestAnimationFrame(step) };
+  }, [commit, step, stopAnimation]);
+
+  /**
+   * Multiply the zoom by `factor`. Animated steps accumulate onto any zoom still
+   * in flight; immediate ones (pinch) are relative to what is on screen.
+   */
+  const zoomBy = useCallback((factor: number, anchor?: ScreenPoint, animate = true) => {
+    const inFlight = animate ? animationRef.current?.targetZoom : undefined;
+    const base = inFlight ?? viewRef.current.zoom;
+    zoomTo(base * factor, anchor, animate);
+  }, [zoomTo]);
+
+  const panBy = useCallback((dx: number, dy: number) => {
+    const { boardSize: size, width: w, height: h } = boundsRef.current;
+    const current = viewRef.current;
+    setHasNavigated(true);
+    commit({
+      zoom: current.zoom,
+      pan: clampPan({ x: current.pan.x + dx, y: current.pan.y + dy }, current.zoom, size, w, h),
+    });
+  }, [commit]);
+
+  /**
+   * Center the view on a board coordinate, optionally changing zoom
+   */
+  const centerView = useCallback((boardX: number, boardY: number, zoom?: number) => {
+    stopAnimation();
+    setHasNavigated(true);
+    const { boardSize: size, width: w, height: h } = boundsRef.current;
+    commit(centerOn(boardX, boardY, zoom ?? viewRef.current.zoom, size, w, h));
+  }, [commit, stopAnimation]);
+
+  const fitToScreen = useCallback(() => {
+    const { boardSize: size, width: w, height: h } = boundsRef.current;
+    zoomTo(getFitZoom(size, w, h));
+  }, [zoomTo]);
+
+  const resetView = useCallback(() => {
+    stopAnimation();
+    setHasNavigated(true);
+    const { boardSize: size, width: w, height: h } = boundsRef.current;
+    commit({ zoom: DEFAULT_ZOOM, pan: clampPan({ x: 0, y: 0 }, DEFAULT_ZOOM, size, w, h) });
+  }, [commit, stopAnimation]);
+
+  // Re-clamp when the surface is resized
+  useEffect(() => {
+    if (!width || !height) return;
+    const current = viewRef.current;
+    const zoom = Math.max(getMinZoom(boardSize, width, height), Math.min(MAX_ZOOM, current.zoom));
+    const pan = clampPan(current.pan, zoom, boardSize, width, height);
+    if (zoom !== current.zoom || pan.x !== current.pan.x || pan.y !== current.pan.y) {
+      commit({ zoom, pan });
+    }
+  }, [boardSize, width, height, commit]);
+
+  useEffect(() => stopAnimation, [stopAnimation]);
+
+  return {
+    zoom: view.zoom,
+    pan: view.pan,
+    minZoom: getMinZoom(boardSize, width, height),
+    maxZoom: MAX_ZOOM,
+    hasNavigated,
+    zoomTo,
+    zoomBy,
+    panBy,
+    centerView,
+    fitToScreen,
+    resetView
+  };
+};
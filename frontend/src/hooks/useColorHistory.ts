@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { addToColorHistory, getColorHistory, subscribeColorHistory } from '@/lib/colorPalettes';
+
+/** Recently used colors, shared between the color pickers and the canvas eyedropper */
+export const useColorHistory = () => {
+  const colors = useSyncExternalStore(subscribeColorHistory, getColorHistory);
+  return { colors, add: addToColorHistory };
+};
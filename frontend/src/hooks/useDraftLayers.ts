@@ -0,0 +1,285 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { toast } from 'sonner';
+import { formatHexColor, type CanvasOverlay, type PixelCoord } from '@/lib/canvasRenderer';
+import { buildBoardColorIndex } from '@/lib/canvasTemplates';
+import {
+  applyDraftEdit,
+  clearDraftEdit,
+  createDraftLayer,
+  diffDraftLayer,
+  draftKey,
+  drawDraftLayer,
+  loadDraftLayers,
+  mergeDraftEdits,
+  paintDraftPixels,
+  saveDraftLayers,
+  type DraftEdit,
+  type DraftLayer,
+  type DraftPixel
+} from '@/lib/draftLayers';
+
+interface EditHistory {
+  undo: DraftEdit[];
+  redo: DraftEdit[];
+  // Stroke that produced the newest undo entry; later parts of it merge in
+  strokeId: number | null;
+}
+
+interface DraftState {
+  layers: DraftLayer[];
+  activeId: string | null;
+  history: Record<string, EditHistory>;
+}
+
+const HISTORY_LIMIT = 100;
+const SAVE_DELAY_MS = 400;
+const EMPTY_HISTORY: EditHistory = { undo: [], redo: [], strokeId: null };
+
+// Array order is stacking order; keep the persisted `order` field in step
+const withOrder = (layers: DraftLayer[]) =>
+  layers.map((layer, index) => layer.order === index ? layer : { ...layer, order: index });
+
+const nextLayerName = (layers: DraftLayer[]) => {
+  let n = layers.length + 1;
+  while (layers.some(layer => layer.name === `Layer ${n}`)) n++;
+  return `Layer ${n}`;
+};
+
+// Swap a layer's pixels and record the edit in its history
+function recordEdit(
+  prev: DraftState,
+  layer: DraftLayer,
+  pixels: Map<string, DraftPixel>,
+  edit: DraftEdit,
+  strokeId: number | null
+): DraftState {
+  const layerHistory = prev.history[layer.id] ?? EMPTY_HISTORY;
+  const last = layerHistory.undo[layerHistory.undo.length - 1];
+  const undo = last && strokeId !== null && layerHistory.strokeId === strokeId
+    ? [...layerHistory.undo.slice(0, -1), mergeDraftEdits(last, edit)]
+    : [...layerHistory.undo, edit].slice(-HISTORY_LIMIT);
+  return {
+    ...prev,
+    layers: prev.layers.map(l => l.id === layer.id ? { ...l, pixels } : l),
+    history: { ...prev.history, [layer.id]: { undo, redo: [], strokeId } }
+  };
+}
+
+/**
+ * Named local draft layers drawn above the live board, persisted in
+ * IndexedDB. Each layer has its own undo/redo history (kept in memory).
+ * Nothing is placed until a layer is committed: its differences from the
+ * live board are handed to the caller.
+ */
+export const useDraftLayers = (
+  boardPixels: readonly { x: number; y: number; color: string }[],
+  boardSize: number
+) => {
+  const [state, setState] = useState<DraftState>({ layers: [], activeId: null, history: {} });
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Layer objects as last written to IndexedDB, to save only what changed
+  const savedRef = useRef<Map<string, DraftLayer>>(new Map());
+  const storageWarnedRef = useRef(false);
+  const { layers, activeId, history } = state;
+
+  useEffect(() => {
+    let cancelled = false;
+    loadDraftLayers()
+      .catch((error: unknown) => {
+        console.warn('Failed to load draft layers:', error);
+        return [] as DraftLayer[];
+      })
+      .then(stored => {
+        if (cancelled) return;
+        savedRef.current = new Map(stored.map(layer => [layer.id, layer]));
+        setState(prev => {
+          // Keep anything drawn while loading on top of the stored layers
+          const merged = withOrder([...stored, ...prev.layers]);
+          const result = merged.length ? merged : [createDraftLayer('Layer 1', 0)];
+          return { ...prev, layers: result, activeId: prev.activeId ?? result[result.length - 1].id };
+        });
+        setIsLoaded(true);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    const timer = setTimeout(() => {
+      const saved = savedRef.current;
+      const changed = layers.filter(layer => saved.get(layer.id) !== layer);
+      const currentIds = new Set(layers.map(layer => layer.id));
+      const removedIds = [...saved.keys()].filter(id => !currentIds.has(id));
+      if (!changed.length && !removedIds.length) return;
+      savedRef.current = new Map(layers.map(layer => [layer.id, layer]));
+      saveDraftLayers(changed, removedIds).catch((error: unknown) => {
+        console.warn('Failed to save draft layers:', error);
+        if (!storageWarnedRef.current) {
+          storageWarnedRef.current = true;
+          toast.error('Draft layers could not be saved in browser storage; they will be lost on reload');
+        }
+      });
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [layers, isLoaded]);
+
+  // Packed board colors, built on first use after each board update: only
+  // flood fill and layers with pixels need them
+  const boardIndexRef = useRef<{ pixels: typeof boardPixels; size: number; index: Int32Array } | null>(null);
+  const getBoardIndex = useCallback(() => {
+    const cached = boardIndexRef.current;
+    if (cached && cached.pixels === boardPixels && cached.size === boardSize) return cached.index;
+    const index = buildBoardColorIndex(boardPixels, boardSize);
+    boardIndexRef.current = { pixels: boardPixels, size: boardSize, index };
+    return index;
+  }, [boardPixels, boardSize]);
+  const activeLayer = layers.find(layer => layer.id === activeId) ?? null;
+
+  const addLayer = useCallback((name?: string) => {
+    setState(prev => {
+      const layer = createDraftLayer(name?.trim() || nextLayerName(prev.layers), prev.layers.length);
+      return { ...prev, layers: [...prev.layers, layer], activeId: layer.id };
+    });
+  }, []);
+
+  const removeLayer = useCallback((id: string) => {
+    setState(prev => {
+      const index = prev.layers.findIndex(layer => layer.id === id);
+      if (index < 0) return prev;
+      const layers = withOrder(prev.layers.filter(layer => layer.id !== id));
+      const { [id]: _removed, ...history } = prev.history;
+      const activeId = prev.activeId === id
+        ? layers[Math.min(index, layers.length - 1)]?.id ?? null
+        : prev.activeId;
+      return { layers, activeId, history };
+    });
+  }, []);
+
+  const updateLayer = useCallback((id: string, patch: Partial<Pick<DraftLayer, 'name' | 'visible' | 'opacity'>>) => {
+    setState(prev => ({
+      ...prev,
+      layers: prev.layers.map(layer => layer.id === id ? { ...layer, ...patch } : layer)
+    }));
+  }, []);
+
+  /** Move a layer one step down (-1) or up (+1) the stack */
+  const moveLayer = useCallback((id: string, direction: -1 | 1) => {
+    setState(prev => {
+      const index = prev.layers.findIndex(layer => layer.id === id);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= prev.layers.length) return prev;
+      const layers = [...prev.layers];
+      [layers[index], layers[target]] = [layers[target], layers[index]];
+      return { ...prev, layers: withOrder(layers) };
+    });
+  }, []);
+
+  const setActiveLayerId = useCallback((id: string) => {
+    setState(prev => ({ ...prev, activeId: id }));
+  }, []);
+
+  /**
+   * Paint into the active layer (created if there is none). Calls sharing a
+   * `strokeId` (one pencil drag) undo as one step.
+   */
+  const paintPixels = useCallback((pixels: readonly DraftPixel[], strokeId: number | null = null) => {
+    if (!pixels.length) return;
+    setState(prev => {
+      let current = prev;
+      let layer = prev.layers.find(l => l.id === prev.activeId);
+      if (!layer) {
+        layer = createDraftLayer(nextLayerName(prev.layers), prev.layers.length);
+        current = { ...prev, layers: [...prev.layers, layer], activeId: layer.id };
+      }
+      const painted = paintDraftPixels(layer.pixels, pixels, boardSize);
+      if (!painted.edit.changes.size) return prev;
+      return recordEdit(current, layer, painted.pixels, painted.edit, strokeId);
+    });
+  }, [boardSize]);
+
+  const paint = useCallback((points: readonly PixelCoord[], color: string, strokeId: number | null = null) => {
+    paintPixels(points.map(({ x, y }) => ({ x, y, color })), strokeId);
+  }, [paintPixels]);
+
+  const clearLayer = useCallback((id: string) => {
+    setState(prev => {
+      const layer = prev.layers.find(l => l.id === id);
+      if (!layer || !layer.pixels.size) return prev;
+      return recordEdit(prev, layer, new Map(), clearDraftEdit(layer.pixels), null);
+    });
+  }, []);
+
+  const step = useCallback((direction: 'undo' | 'redo') => {
+    setState(prev => {
+      const layer = prev.layers.find(l => l.id === prev.activeId);
+      const layerHistory = layer && prev.history[layer.id];
+      const source = layerHistory?.[direction];
+      if (!layer || !layerHistory || !source?.length) return prev;
+      const edit = source[source.length - 1];
+      const target = direction === 'undo' ? 'redo' : 'undo';
+      return {
+        ...prev,
+        layers: prev.layers.map(l => l.id === layer.id ? { ...l, pixels: applyDraftEdit(l.pixels, edit, direction) } : l),
+        history: {
+          ...prev.history,
+          [layer.id]: {
+            ...layerHistory,
+            [direction]: source.slice(0, -1),
+            [target]: [...layerHistory[target], edit],
+            strokeId: null
+          } as EditHistory
+        }
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => step('undo'), [step]);
+  const redo = useCallback(() => step('redo'), [step]);
+
+  /** Color at a coordinate as seen through the active layer (lowercase; undefined when empty) */
+  const colorAt = useCallback((x: number, y: number) => {
+    const drafted = activeLayer?.pixels.get(draftKey(x, y));
+    if (drafted) return drafted.color.toLowerCase();
+    if (x < 0 || y < 0 || x >= boardSize || y >= boardSize) return undefined;
+    const rgb = getBoardIndex()[y * boardSize + x];
+    return rgb < 0 ? undefined : formatHexColor(rgb);
+  }, [activeLayer, getBoardIndex, boardSize]);
+
+  // Differences from the live board per layer: what committing would place
+  const pendingByLayer = useMemo(() => {
+    const pending: Record<string, DraftPixel[]> = {};
+    const board = layers.some(layer => layer.pixels.size > 0) ? getBoardIndex() : null;
+    for (const layer of layers) pending[layer.id] = board ? diffDraftLayer(layer, board, boardSize) : [];
+    return pending;
+  }, [layers, getBoardIndex, boardSize]);
+
+  const overlays = useMemo((): CanvasOverlay[] => layers
+    .filter(layer => layer.visible && layer.pixels.size > 0)
+    .map(layer => ({
+      key: `draft-layer-${layer.id}`,
+      draw: (ctx, viewport) => drawDraftLayer(ctx, viewport, layer)
+    })), [layers]);
+
+  const activeHistory = (activeId && history[activeId]) || EMPTY_HISTORY;
+
+  return {
+    layers,
+    activeLayer,
+    isLoaded,
+    setActiveLayerId,
+    addLayer,
+    removeLayer,
+    updateLayer,
+    moveLayer,
+    paint,
+    paintPixels,
+    clearLayer,
+    undo,
+    redo,
+    canUndo: activeHistory.undo.length > 0,
+    canRedo: activeHistory.redo.length > 0,
+    colorAt,
+    pendingByLayer,
+    overlays
+  };
+};
@@ -0,0 +1,159 @@
+import { useState, useRef, useCallback, useMemo } from 'react';
+import { toast } from 'sonner';
+import type { CanvasOverlay, PixelCoord } from '@/lib/canvasRenderer';
+import { drawQueuedPixels } from '@/lib/placementQueue';
+import {
+  FLOOD_FILL_LIMIT,
+  floodFill,
+  isShapeTool,
+  rasterizeLine,
+  rasterizeShape,
+  SHAPE_PIXEL_LIMIT,
+  type CanvasDrawingHandlers,
+  type DrawingTool
+} from '@/lib/drawingTools';
+import { useDraftLayers } from '@/hooks/useDraftLayers';
+
+type DraftLayerControls = ReturnType<typeof useDraftLayers>;
+
+interface ShapeStroke {
+  start: PixelCoord;
+  current: PixelCoord;
+}
+
+const GHOST_OUTLINE_COLOR = '#8b5cf6';
+
+/**
+ * Drawing tools and the draft they paint into, which is the active draft
+ * layer. A line/rect/ellipse being dragged out is shown as a ghost until
+ * released; nothing reaches the chain until `commit` hands the pixels that
+ * differ from the board to the caller (the placement queue). With the text
+ * tool, clicking or dragging moves the text preview anchor.
+ */
+export const useDrawingDraft = (
+  selectedColor: string,
+  layers: DraftLayerControls,
+  boardSize: number,
+  onTextAnchor?: (point: PixelCoord) => void
+) => {
+  const [tool, setToolState] = useState<DrawingTool>('place');
+  // Tool to return to after a one-shot eyedropper pick
+  const returnToolRef = useRef<DrawingTool>('place');
+  // Line/rect/ellipse being dragged out, previewed but not yet painted
+  const [stroke, setStroke] = useState<ShapeStroke | null>(null);
+  const lastPencilPointRef = useRef<PixelCoord | null>(null);
+  const strokeIdRef = useRef(0);
+  const isPlacingTextRef = useRef(false);
+  const { paint, colorAt, activeLayer, pendingByLayer, clearLayer } = layers;
+
+  const setTool = useCallback((next: DrawingTool) => {
+    if (next === 'eyedropper' && tool !== 'eyedropper') returnToolRef.current = tool;
+    setToolState(next);
+  }, [tool]);
+
+  /** Leave the eyedropper for the tool that was active before it */
+  const finishEyedropper = useCallback(() => {
+    setToolState(current => current === 'eyedropper' ? returnToolRef.current : current);
+  }, []);
+
+  const begin = useCallback((point: PixelCoord) => {
+    if (tool === 'text') {
+      isPlacingTextRef.current = true;
+      onTextAnchor?.(point);
+    } else if (tool === 'fill') {
+      // Fill the region as it looks through the active layer
+      const region = floodFill(point, colorAt, boardSize);
+      if (region) {
+        paint(region, selectedColor);
+      } else {
+        toast.error(`Fill area is larger than ${FLOOD_FILL_LIMIT.toLocaleString()} pixels`);
+      }
+    } else if (tool === 'pencil') {
+      strokeIdRef.current += 1;
+      lastPencilPointRef.current = point;
+      paint([point], selectedColor, strokeIdRef.current);
+    } else if (isShapeTool(tool)) {
+      setStroke({ start: point, current: point });
+    }
+  }, [tool, colorAt, boardSize, paint, selectedColor, onTextAnchor]);
+
+  const move = useCallback((point: PixelCoord) => {
+    const last = lastPencilPointRef.current;
+    if (tool === 'text') {
+      if (isPlacingTextRef.current) onTextAnchor?.(point);
+    } else if (tool === 'pencil' && last) {
+      if (last.x === point.x && last.y === point.y) return;
+      // Connect fast mouse moves so the stroke has no gaps
+      paint(rasterizeLine(last, point), selectedColor, strokeIdRef.current);
+      lastPencilPointRef.current = point;
+    } else {
+      setStroke(prev => prev && (prev.current.x !== point.x || prev.current.y !== point.y)
+        ? { ...prev, current: point }
+        : prev);
+    }
+  }, [tool, paint, selectedColor, onTextAnchor]);
+
+  const end = useCallback(() => {
+    lastPencilPointRef.current = null;
+    isPlacingTextRef.current = false;
+    if (stroke && isShapeTool(tool)) {
+      const points = rasterizeShape(tool, stroke.start, stroke.current);
+      if (points) {
+        paint(points, selectedColor);
+      } else {
+        toast.error(`Shape is larger than ${SHAPE_PIXEL_LIMIT.toLocaleString()} pixels`);
+      }
+    }
+    setStroke(null);
+  }, [tool, stroke, paint, selectedColor]);
+
+  const handlers = useMemo((): CanvasDrawingHandlers | null => (
+    tool === 'place' || tool === 'eyedropper' ? null : { begin, move, end }
+  ), [tool, begin, move, end]);
+
+  const overlays = useMemo((): CanvasOverlay[] => {
+    if (!stroke || !isShapeTool(tool)) return [];
+    // Oversized shapes get no preview; releasing them is rejected
+    const points = rasterizeShape(tool, stroke.start, stroke.current);
+    if (!points) return [];
+    const preview = points
+      .filter(({ x, y }) => x >= 0 && y >= 0 && x < boardSize && y < boardSize)
+      .map(({ x, y }) => ({ x, y, color: selectedColor }));
+    return [{
+      key: 'drawing-stroke',
+      draw: (ctx, viewport) => drawQueuedPixels(ctx, viewport, preview, GHOST_OUTLINE_COLOR)
+    }];
+  }, [stroke, tool, selectedColor, boardSize]);
+
+  // Only pixels that would change the board cost anything
+  const pendingPixels = useMemo(
+    () => (activeLayer && pendingByLayer[activeLayer.id]) || [],
+    [activeLayer, pendingByLayer]
+  );
+
+  /** Drop the shape being dragged out and clear the active layer (undoable) */
+  const discard = useCallback(() => {
+    setStroke(null);
+    if (activeLayer) clearLayer(activeLayer.id);
+  }, [activeLayer, clearLayer]);
+
+  /** Clear the draft and return the pixels that differ from the board */
+  const commit = useCallback(() => {
+    const pixels = pendingPixels;
+    discard();
+    return pixels;
+  }, [pendingPixels, discard]);
+
+  return {
+    tool,
+    setTool,
+    isPickingColor: tool === 'eyedropper',
+    finishEyedropper,
+    handlers,
+    draftSize: activeLayer?.pixels.size ?? 0,
+    pendingPixels,
+    overlays,
+    commit,
+    discard
+  };
+};
@@ -23,6 +23,11 @@ export interface PixelData {
 export const useOptimisticCanvas = () => {
   const [optimisticPixels, setOptimisticPixels] = useState<Map<string, OptimisticPixel>>(new Map());
   const [pendingTransactions, setPendingTransactions] = useState<Map<string, OptimisticPixel>>(new Map());
+  // Counts changes to the optimistic pixels, so the canvas knows the merged board was replaced
+  const [revision, setRevision] = useState({ pixels: optimisticPixels, count: 0 });
+  if (revision.pixels !== optimisticPixels) {
+    setRevision({ pixels: optimisticPixels, count: revision.count + 1 });
+  }
 
   // Add optimistic pixel
   const addOptimisticPixel = useCallback((x: number, y: number, color: string, transactionId?: string) => {
@@ -132,7 +137,7 @@ export const useOptimisticCanvas = () => {
         toast.warning(`${cleanedCount} unconfirmed optimistic pixels expired`);
       }
 
-      return newMap;
+      return cleanedCount > 0 ? newMap : prev;
     });
   }, []);
 
@@ -183,6 +188,7 @@ export const useOptimisticCanvas = () => {
     rollbackOptimisticPixel,
     confirmOptimisticPixel,
     mergePixelsWithOptimistic,
+    revision: revision.count,
     hasOptimisticPixel: (x: number, y: number) => optimisticPixels.has(`${x},${y}`),
     isPending: pendingTransactions.size > 0
   };
@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import type { PixelInfo } from '@/lib/contract';
+import { getPDDataCached, getPixelInfoCached, type DecodedPDData } from '@/lib/pixelInfoCache';
+
+// Hovering sweeps across many pixels; only look up the one the pointer rests on
+const LOOKUP_DELAY = 250;
+
+interface PixelInfoState {
+  info: PixelInfo | null;
+  pdData: DecodedPDData | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+const EMPTY_STATE: PixelInfoState = { info: null, pdData: null, isLoading: false, error: null };
+
+/**
+ * Debounced on-chain lookup of a pixel (getPixel) and, for Programmable Data
+ * pixels, its stored payload (getStoredPDData).
+ * `hint` is the locally known color so a repaint triggers a fresh lookup.
+ */
+export const usePixelInfo = (coords: { x: number; y: number } | null, hint = '') => {
+  const [state, setState] = useState<PixelInfoState>(EMPTY_STATE);
+  const x = coords?.x;
+  const y = coords?.y;
+
+  useEffect(() => {
+    if (x === undefined || y === undefined) {
+      setState(EMPTY_STATE);
+      return;
+    }
+
+    let cancelled = false;
+    setState({ ...EMPTY_STATE, isLoading: true });
+
+    const timer = setTimeout(async () => {
+      try {
+        const info = await getPixelInfoCached(x, y, hint);
+        if (cancelled) return;
+        setState({ info, pdData: null, isLoading: info.isProgrammableData && !!info.irysTxId, error: null });
+
+        if (info.isProgrammableData && info.irysTxId) {
+          const pdData = await getPDDataCached(info.irysTxId);
+          if (cancelled) return;
+          setState({ info, pdData, isLoading: false, error: null });
+        }
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Failed to load pixel info:', error);
+        const message = (error as { shortMessage?: string })?.shortMessage ||
+          (error instanceof Error ? error.message : 'Lookup failed');
+        setState(prev => ({ ...prev, isLoading: false, error: message }));
+      }
+    }, LOOKUP_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [x, y, hint]);
+
+  return state;
+};
@@ -0,0 +1,202 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useAccount } from 'wagmi';
+import { checkRateLimitStatus } from '@/lib/contract';
+import { buildBoardColorIndex } from '@/lib/canvasTemplates';
+import {
+  isAlreadyPlaced,
+  loadQueue,
+  mergeIntoQueue,
+  saveQueue,
+  type QueuedPixel
+} from '@/lib/placementQueue';
+
+export type QueueStatus = 'empty' | 'paused' | 'disconnected' | 'waiting' | 'placing' | 'ready';
+
+interface QueuePlacement {
+  x: number;
+  y: number;
+  color: string;
+  timestamp?: number;
+}
+
+// Retry delay when the contract still reports a cooldown we didn't know about
+const RATE_LIMIT_RETRY_MS = 3000;
+
+/**
+ * Persistent queue of pixels placed one by one as the contract cooldown allows.
+ * Before each placement the scheduler reads the on-chain cooldown
+ * (minPlacementInterval / lastPlacementAt) and waits it out; pixels that
+ * already have their target color on the board are dropped. Errors other
+ * than rate limiting (rejected signature, funds) pause the queue.
+ */
+export const usePlacementQueue = (
+  placePixel: (pixel: QueuePlacement) => Promise<void>,
+  boardPixels: readonly { x: number; y: number; color: string }[],
+  boardSize: number
+) => {
+  const { address } = useAccount();
+  const [restored] = useState(loadQueue);
+  const [items, setItems] = useState<QueuedPixel[]>(restored.items);
+  const [isPaused, setIsPaused] = useState(restored.paused);
+  const [isBusy, setIsBusy] = useState(false);
+  const [placingId, setPlacingId] = useState<string | null>(null);
+  // When the cooldown ends (ms); the scheduler sleeps until then
+  const [readyAt, setReadyAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [skippedCount, setSkippedCount] = useState(0);
+  // Canvas clicks add to the queue instead of placing right away
+  const [isQueueMode, setIsQueueMode] = useState(false);
+
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const pausedRef = useRef(isPaused);
+  pausedRef.current = isPaused;
+  const placePixelRef = useRef(placePixel);
+  placePixelRef.current = placePixel;
+  const runningRef = useRef(false);
+
+  useEffect(() => {
+    saveQueue({ items, paused: isPaused });
+  }, [items, isPaused]);
+
+  // Only index the board while something is queued
+  const hasItems = items.length > 0;
+  const board = useMemo(
+    () => (hasItems ? buildBoardColorIndex(boardPixels, boardSize) : null),
+    [hasItems, boardPixels, boardSize]
+  );
+
+  // Drop pixels that already show their target color
+  useEffect(() => {
+    if (!board) return;
+    const done = items.filter(item => isAlreadyPlaced(item, board, boardSize) && item.id !== placingId);
+    if (!done.length) return;
+    const doneIds = new Set(done.map(item => item.id));
+    setItems(prev => prev.filter(item => !doneIds.has(item.id)));
+    setSkippedCount(count => count + done.length);
+  }, [items, board, boardSize, placingId]);
+
+  const runNext = useCallback(async () => {
+    const head = itemsRef.current[0];
+    if (runningRef.current || !head || pausedRef.current || !address) return;
+    runningRef.current = true;
+    setIsBusy(true);
+    try {
+      const status = await checkRateLimitStatus(address);
+      if (!status.canPlace && status.timeRemaining > 0) {
+        setReadyAt(Date.now() + status.timeRemaining * 1000);
+        return;
+      }
+      // The queue may have changed while the cooldown was read
+      const current = itemsRef.current[0];
+      if (!current || pausedRef.current) return;
+
+      setPlacingId(current.id);
+      await placePixelRef.current({ x: current.x, y: current.y, color: current.color, timestamp: Date.now() });
+      setItems(prev => prev.filter(item => item.id !== current.id));
+      setLastError(null);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Placement failed';
+      setLastError(message);
+      if (/rate limit/i.test(message)) {
+        setReadyAt(Date.now() + RATE_LIMIT_RETRY_MS);
+      } else {
+        setIsPaused(true);
+      }
+    } finally {
+      runningRef.current = false;
+      setPlacingId(null);
+      setIsBusy(false);
+    }
+  }, [address]);
+
+  // Scheduler: run the head of the queue once idle and past the cooldown
+  useEffect(() => {
+    if (isPaused || isBusy || !items.length || !address) return;
+    const delay = readyAt === null ? 0 : Math.max(0, readyAt - Date.now());
+    const timer = setTimeout(runNext, delay);
+    return () => clearTimeout(timer);
+  }, [isPaused, isBusy, items, address, readyAt, runNext]);
+
+  // Countdown ticks while waiting for the cooldown
+  const isCountingDown = readyAt !== null && now < readyAt;
+  useEffect(() => {
+    if (readyAt === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [readyAt, isCountingDown]);
+
+  const enqueue = useCallback((pixels: readonly { x: number; y: number; color: string }[]) => {
+    setItems(prev => mergeIntoQueue(prev, pixels));
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+  }, []);
+
+  /** Move an item one step towards the front (-1) or back (+1) */
+  const move = useCallback((id: string, direction: -1 | 1) => {
+    setItems(prev => {
+      const index = prev.findIndex(item => item.id === id);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
+  const moveToFront = useCallback((id: string) => {
+    setItems(prev => {
+      const item = prev.find(entry => entry.id === id);
+      return item ? [item, ...prev.filter(entry => entry.id !== id)] : prev;
+    });
+  }, []);
+
+  const clear = useCallback(() => {
+    setItems([]);
+    setSkippedCount(0);
+    setLastError(null);
+  }, []);
+
+  const pause = useCallback(() => setIsPaused(true), []);
+
+  const resume = useCallback(() => {
+    setLastError(null);
+    setIsPaused(false);
+  }, []);
+
+  const status: QueueStatus = !items.length
+    ? 'empty'
+    : isPaused
+      ? 'paused'
+      : !address
+        ? 'disconnected'
+        : placingId
+          ? 'placing'
+          : isCountingDown
+            ? 'waiting'
+            : 'ready';
+
+  return {
+    items,
+    status,
+    isPaused,
+    placingId,
+    // Whole seconds left on the cooldown while waiting
+    secondsUntilNext: isCountingDown && readyAt !== null ? Math.ceil((readyAt - now) / 1000) : 0,
+    lastError,
+    skippedCount,
+    isQueueMode,
+    setIsQueueMode,
+    enqueue,
+    remove,
+    move,
+    moveToFront,
+    clear,
+    pause,
+    resume
+  };
+};
@@ -0,0 +1,88 @@
+import { useState, useCallback, useMemo } from 'react';
+import type { CanvasOverlay, PixelCoord } from '@/lib/canvasRenderer';
+import { drawQueuedPixels } from '@/lib/placementQueue';
+import { PIXEL_FONTS, renderText } from '@/lib/pixelFonts';
+import { useDraftLayers } from '@/hooks/useDraftLayers';
+
+type DraftLayerControls = ReturnType<typeof useDraftLayers>;
+
+const PREVIEW_OUTLINE_COLOR = '#06b6d4';
+
+/**
+ * Text tool: typed text rendered with a bitmap font into a ghost preview
+ * anchored at a board position (top-left corner). Committing paints the
+ * preview into the active draft layer as one undoable step.
+ */
+export const useTextTool = (layers: DraftLayerControls, selectedColor: string, boardSize: number) => {
+  const [text, setText] = useState('');
+  const [fontId, setFontId] = useState(PIXEL_FONTS[1].id);
+  const [scale, setScale] = useState(1);
+  const [letterSpacing, setLetterSpacing] = useState(1);
+  const [hasOutline, setHasOutline] = useState(false);
+  const [outlineColor, setOutlineColor] = useState('#000000');
+  const [position, setPosition] = useState<PixelCoord | null>(null);
+  const { paintPixels } = layers;
+
+  const font = PIXEL_FONTS.find(f => f.id === fontId) ?? PIXEL_FONTS[0];
+
+  const rendered = useMemo(() => renderText(text, {
+    font,
+    scale,
+    letterSpacing,
+    color: selectedColor,
+    outlineColor: hasOutline ? outlineColor : null
+  }), [text, font, scale, letterSpacing, selectedColor, hasOutline, outlineColor]);
+
+  // Preview pixels on the board, clipped to its bounds
+  const placed = useMemo(() => {
+    if (!position || !text.trim()) return [];
+    return rendered.pixels
+      .map(p => ({ x: p.x + position.x, y: p.y + position.y, color: p.color }))
+      .filter(p => p.x >= 0 && p.y >= 0 && p.x < boardSize && p.y < boardSize);
+  }, [rendered, position, text, boardSize]);
+
+  const nudge = useCallback((dx: number, dy: number) => {
+    setPosition(prev => prev && {
+      x: Math.max(0, Math.min(boardSize - 1, prev.x + dx)),
+      y: Math.max(0, Math.min(boardSize - 1, prev.y + dy))
+    });
+  }, [boardSize]);
+
+  const overlays = useMemo((): CanvasOverlay[] => placed.length
+    ? [{
+        key: 'text-preview',
+        draw: (ctx, viewport) => drawQueuedPixels(ctx, viewport, placed, PREVIEW_OUTLINE_COLOR)
+      }]
+    : [], [placed]);
+
+  /** Paint the preview into the active draft layer and start a new text */
+  const commit = useCallback(() => {
+    if (!placed.length) return 0;
+    paintPixels(placed);
+    setText('');
+    return placed.length;
+  }, [placed, paintPixels]);
+
+  return {
+    text,
+    setText,
+    fontId: font.id,
+    setFontId,
+    scale,
+    setScale,
+    letterSpacing,
+    setLetterSpacing,
+    hasOutline,
+    setHasOutline,
+    outlineColor,
+    setOutlineColor,
+    position,
+    setPosition,
+    nudge,
+    width: rendered.width,
+    height: rendered.height,
+    pixelCount: placed.length,
+    overlays,
+    commit
+  };
+};
@@ -0,0 +1,110 @@
+import { useState, useRef, useCallback } from 'react';
+import { getConfirmedBlockNumber } from '@/lib/contract';
+import { getPixelEventLog } from '@/lib/pixelEventLog';
+import { getCanvasHistory, type CanvasHistory, type HistoryPixel } from '@/lib/canvasHistory';
+
+export type TimeTravelTarget =
+  | { kind: 'block'; block: number }
+  | { kind: 'time'; time: number };
+
+/**
+ * Read-only view of the canvas frozen at a block (or point in time), rebuilt
+ * from PixelPlaced events. States come from the shared CanvasHistory cache,
+ * so stepping between neighbouring blocks only replays the events in between.
+ */
+export const useTimeTravel = () => {
+  const [isActive, setIsActive] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadProgress, setLoadProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<CanvasHistory | null>(null);
+  const [block, setBlock] = useState<number | null>(null);
+  // Requested time when travelling by date
+  const [time, setTime] = useState<number | null>(null);
+  const [pixels, setPixels] = useState<HistoryPixel[]>([]);
+  const loadTokenRef = useRef(0);
+
+  const travelTo = useCallback(async (target: TimeTravelTarget) => {
+    const token = ++loadTokenRef.current;
+    setIsActive(true);
+    setIsLoading(true);
+    setError(null);
+    setLoadProgress(0);
+    try {
+      const log = getPixelEventLog();
+      // Load up to the confirmed head (not just the target) so stepping forward works too;
+      // the log is shared and only fetches blocks it hasn't seen
+      const head = await getConfirmedBlockNumber();
+      const events = await log.ensureLoaded(head, fraction => {
+        if (token === loadTokenRef.current) setLoadProgress(fraction);
+      });
+      if (token !== loadTokenRef.current) return;
+
+      const shared = getCanvasHistory(events);
+      let targetBlock: number;
+      let isBeforeFirstPlacement = false;
+      if (target.kind === 'block') {
+        targetBlock = Math.min(target.block, head);
+      } else {
+        // The board only changes at placements: freeze at the last one before the date,
+        // or at the empty board just before the first placement when there is none
+        // (clamped to block 0 when the log starts at genesis or has no placements yet)
+        const previous = shared.eventBefore(shared.positionAtTime(target.time));
+        isBeforeFirstPlacement = !previous;
+        targetBlock = previous?.blockNumber ?? Math.max(0, (shared.firstBlock ?? log.fromBlock) - 1);
+      }
+
+      setHistory(shared);
+      setBlock(targetBlock);
+      setTime(target.kind === 'time' ? target.time : null);
+      setPixels(isBeforeFirstPlacement ? [] : shared.stateAtBlock(targetBlock));
+    } catch (e) {
+      if (token !== loadTokenRef.current) return;
+      console.error('Failed to rebuild historical canvas:', e);
+      setError(e instanceof Error ? e.message : 'Failed to load history');
+    } finally {
+      if (token === loadTokenRef.current) setIsLoading(false);
+    }
+  }, []);
+
+  /** Step to the previous/next block that changed the board */
+  const stepPlacementBlock = useCallback((direction: -1 | 1) => {
+    if (!history || block === null) return;
+    const next = direction < 0 ? history.previousEventBlock(block) : history.nextEventBlock(block);
+    if (next === null) return;
+    setBlock(next);
+    setTime(null);
+    setPixels(history.stateAtBlock(next));
+  }, [history, block]);
+
+  const exit = useCallback(() => {
+    loadTokenRef.current++;
+    setIsActive(false);
+    setIsLoading(false);
+    setHistory(null);
+    setBlock(null);
+    setTime(null);
+    setPixels([]);
+  }, []);
+
+  const lastEvent = history && block !== null ? history.eventBefore(history.positionAtBlock(block)) : null;
+
+  return {
+    isActive,
+    isLoading,
+    loadProgress,
+    error,
+    // True once a historical board is ready to display
+    isReady: isActive && !!history && block !== null,
+    block,
+    time,
+    pixels,
+    // Most recent placement included in the frozen board
+    lastPlacement: lastEvent,
+    hasPrevious: !!history && block !== null && history.previousEventBlock(block) !== null,
+    hasNext: !!history && block !== null && history.nextEventBlock(block) !== null,
+    travelTo,
+    stepPlacementBlock,
+    exit
+  };
+};
@@ -0,0 +1,169 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { getConfirmedBlockNumber } from '@/lib/contract';
+import { getPixelEventLog } from '@/lib/pixelEventLog';
+import { getCanvasHistory, type CanvasHistory, type HistoryPixel } from '@/lib/canvasHistory';
+import type { PixelChangeSet } from '@/lib/canvasRenderer';
+
+// Playback speeds in events per second
+export const TIMELAPSE_SPEEDS = [5, 20, 100, 500, 2500];
+const DEFAULT_SPEED = 100;
+
+/**
+ * Replays PixelPlaced history onto the canvas in block order.
+ * Runs on its own copy of the event log, so live sync keeps going underneath;
+ * the page swaps `pixels`/`changes` into the canvas while the player is open.
+ */
+export const useTimelapse = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadProgress, setLoadProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<CanvasHistory | null>(null);
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(DEFAULT_SPEED);
+  // Full board, replaced on seeks; playback streams deltas through `changes`
+  const [pixels, setPixels] = useState<HistoryPixel[]>([]);
+  const [changes, setChanges] = useState<PixelChangeSet | null>(null);
+
+  const positionRef = useRef(0);
+  const occupiedRef = useRef<Set<string>>(new Set());
+  // Ignores a history load that finishes after the player was closed
+  const loadTokenRef = useRef(0);
+
+  const seek = useCallback((target: number) => {
+    if (!history) return;
+    const next = Math.max(0, Math.min(history.length, Math.round(target)));
+    const state = history.stateAt(next);
+    positionRef.current = next;
+    occupiedRef.current = new Set(state.map(p => `${p.x}_${p.y}`));
+    setPosition(next);
+    setPixels(state);
+    setChanges(null);
+  }, [history]);
+
+  const seekToBlock = useCallback((block: number) => {
+    if (history) seek(history.positionAtBlock(block));
+  }, [history, seek]);
+
+  const seekToTime = useCallback((time: number) => {
+    if (history) seek(history.positionAtTime(time));
+  }, [history, seek]);
+
+  const open = useCallback(async () => {
+    const token = ++loadTokenRef.current;
+    setIsOpen(true);
+    setIsLoading(true);
+    setError(null);
+    setLoadProgress(0);
+    try {
+      const current = await getConfirmedBlockNumber();
+      const log = getPixelEventLog();
+      const events = await log.ensureLoaded(current, fraction => {
+        if (token === loadTokenRef.current) setLoadProgress(fraction);
+      });
+      if (token !== loadTokenRef.current) return;
+      setHistory(getCanvasHistory(events));
+    } catch (e) {
+      if (token !== loadTokenRef.current) return;
+      console.error('Failed to load canvas history:', e);
+      setError(e instanceof Error ? e.message : 'Failed to load history');
+    } finally {
+      if (token === loadTokenRef.current) setIsLoading(false);
+    }
+  }, []);
+
+  const close = useCallback(() => {
+    loadTokenRef.current++;
+    setIsOpen(false);
+    setIsLoading(false);
+    setIsPlaying(false);
+    setHistory(null);
+    setPixels([]);
+    setChanges(null);
+  }, []);
+
+  // Start from an empty board once history is ready
+  useEffect(() => {
+    if (!history) return;
+    seek(0);
+    setIsPlaying(history.length > 0);
+  }, [history, seek]);
+
+  const play = useCallback(() => {
+    if (!history) return;
+    // Restart when at the end
+    if (positionRef.current >= history.length) seek(0);
+    setIsPlaying(true);
+  }, [history, seek]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  // Playback loop: advance by speed × elapsed time, emitting only the changed pixels
+  useEffect(() => {
+    if (!isPlaying || !history) return;
+    let frame = 0;
+    let last: number | null = null;
+    let budget = 0;
+
+    const step = (now: number) => {
+      const dt = last === null ? 0 : Math.min(250, now - last);
+      last = now;
+      budget += (dt / 1000) * speed;
+      const count = Math.floor(budget);
+      if (count > 0) {
+        budget -= count;
+        const from = positionRef.current;
+        const to = Math.min(history.length, from + count);
+        const occupied = occupiedRef.current;
+        const added: HistoryPixel[] = [];
+        const changed: HistoryPixel[] = [];
+        for (const pixel of history.changesBetween(from, to)) {
+          const key = `${pixel.x}_${pixel.y}`;
+          if (occupied.has(key)) {
+            changed.push(pixel);
+          } else {
+            occupied.add(key);
+            added.push(pixel);
+          }
+        }
+        positionRef.current = to;
+        setPosition(to);
+        setChanges(prev => ({ seq: (prev?.seq ?? 0) + 1, added, changed }));
+        if (to >= history.length) {
+          setIsPlaying(false);
+          return;
+        }
+      }
+      frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, history, speed]);
+
+  const currentEvent = history?.eventBefore(position) ?? null;
+
+  return {
+    isOpen,
+    isLoading,
+    loadProgress,
+    error,
+    history,
+    position,
+    isPlaying,
+    speed,
+    pixels,
+    changes,
+    // Block and time the replayed board corresponds to
+    currentBlock: currentEvent?.blockNumber ?? null,
+    currentTime: currentEvent?.timestamp ?? null,
+    open,
+    close,
+    play,
+    pause,
+    setSpeed,
+    seek,
+    seekToBlock,
+    seekToTime
+  };
+};
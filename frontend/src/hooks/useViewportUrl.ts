@@ -0,0 +1,61 @@
+import { useEffect, useRef } from 'react';
+import {
+  buildViewportUrl,
+  getViewCenter,
+  parseViewportLink,
+  type ViewportLink
+} from '@/lib/canvasViewport';
+
+// Let the view settle before rewriting the address bar
+const URL_UPDATE_DELAY = 250;
+
+interface UseViewportUrlOptions {
+  boardSize: number;
+  zoom: number;
+  pan: { x: number; y: number };
+  width: number;
+  height: number;
+  // The user has zoomed or panned since load
+  hasNavigated: boolean;
+  centerView: (boardX: number, boardY: number, zoom?: number) => void;
+}
+
+/**
+ * Keep the canvas viewport in the URL (?x=&y=&z=): restore it once the surface
+ * has a size, then mirror navigation into the address bar with replaceState.
+ * A plain visit keeps a clean URL until the user zooms or pans.
+ */
+export const useViewportUrl = ({ boardSize, zoom, pan, width, height, hasNavigated, centerView }: UseViewportUrlOptions) => {
+  const restoredRef = useRef(false);
+  const openedWithLinkRef = useRef(false);
+
+  useEffect(() => {
+    if (restoredRef.current || !width || !height) return;
+    restoredRef.current = true;
+    const link = parseViewportLink(window.location.search, boardSize);
+    if (link) {
+      openedWithLinkRef.current = true;
+      // Center on the middle of the linked pixel
+      centerView(link.x + 0.5, link.y + 0.5, link.zoom);
+    }
+  }, [boardSize, width, height, centerView]);
+
+  useEffect(() => {
+    if (!restoredRef.current || !width || !height) return;
+    if (!hasNavigated && !openedWithLinkRef.current) return;
+    const timer = setTimeout(() => {
+      const center = getViewCenter({ zoom, pan }, width, height);
+      const link: ViewportLink = {
+        x: Math.max(0, Math.min(boardSize - 1, Math.floor(center.x))),
+        y: Math.max(0, Math.min(boardSize - 1, Math.floor(center.y))),
+        zoom,
+      };
+      const next = buildViewportUrl(link);
+      if (next !== window.location.href) {
+        // Preserve the router's history state so back/forward keep working
+        window.history.replaceState(window.history.state, '', next);
+      }
+    }, URL_UPDATE_DELAY);
+    return () => clearTimeout(timer);
+  }, [boardSize, zoom, pan, width, height, hasNavigated]);
+};
@@ -0,0 +1,203 @@
+// Analytical overlays computed from the PixelPlaced event log. Each mode is
+// baked into a board-sized texture (one texel per pixel) when its inputs
+// change, so drawing it per frame is a single scaled blit.
+
+import type { CanvasViewport, RenderContext } from './canvasRenderer';
+import type { PixelHistoryEvent } from './pixelEventLog';
+import { formatDuration } from './pixelPlan';
+
+export type AnalyticsMode = 'heatmap' | 'age' | 'provenance';
+
+export interface LegendEntry {
+  color: string;
+  label: string;
+}
+
+/** Either a continuous ramp (gradient with end labels) or discrete swatches */
+export interface AnalyticsLegend {
+  title: string;
+  gradient?: string[];
+  entries: LegendEntry[];
+}
+
+export interface AnalyticsTexture {
+  canvas: HTMLCanvasElement;
+  legend: AnalyticsLegend;
+}
+
+type Rgb = [number, number, number];
+
+const HEAT_RAMP = ['#fde047', '#f97316', '#dc2626', '#7f1d1d'];
+const AGE_RAMP = ['#22d3ee', '#6366f1', '#312e81'];
+const PROVENANCE_COLORS = { standard: '#3b82f6', programmable: '#d946ef' };
+
+const hexToRgb = (hex: string): Rgb => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+function sampleRamp(ramp: readonly Rgb[], t: number): Rgb {
+  const position = Math.max(0, Math.min(1, t)) * (ramp.length - 1);
+  const index = Math.min(ramp.length - 2, Math.floor(position));
+  const f = position - index;
+  const [a, b] = [ramp[index], ramp[index + 1]];
+  return [
+    Math.round(a[0] + (b[0] - a[0]) * f),
+    Math.round(a[1] + (b[1] - a[1]) * f),
+    Math.round(a[2] + (b[2] - a[2]) * f)
+  ];
+}
+
+function createTexture(boardSize: number, paint: (rgba: Uint8ClampedArray) => void): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = boardSize;
+  canvas.height = boardSize;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  const image = ctx.createImageData(boardSize, boardSize);
+  paint(image.data);
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+}
+
+const inBoard = (ev: PixelHistoryEvent, boardSize: number) =>
+  ev.x >= 0 && ev.y >= 0 && ev.x < boardSize && ev.y < boardSize;
+
+/**
+ * Overwrites per pixel within [fromMs, toMs]: placements on a pixel that
+ * already had one (at any earlier time)
+ */
+export function countOverwrites(
+  events: readonly PixelHistoryEvent[],
+  boardSize: number,
+  fromMs: number,
+  toMs: number
+): { counts: Uint32Array; max: number } {
+  const placed = new Uint8Array(boardSize * boardSize);
+  const counts = new Uint32Array(boardSize * boardSize);
+  let max = 0;
+  for (const ev of events) {
+    if (!inBoard(ev, boardSize)) continue;
+    const index = ev.y * boardSize + ev.x;
+    if (placed[index] && ev.timestamp >= fromMs && ev.timestamp <= toMs) {
+      counts[index]++;
+      if (counts[index] > max) max = counts[index];
+    }
+    placed[index] = 1;
+  }
+  return { counts, max };
+}
+
+export function buildHeatmapTexture(
+  events: readonly PixelHistoryEvent[],
+  boardSize: number,
+  fromMs: number,
+  toMs: number
+): AnalyticsTexture {
+  const { counts, max } = countOverwrites(events, boardSize, fromMs, toMs);
+  const ramp = HEAT_RAMP.map(hexToRgb);
+  // Log scale so a few hot spots don't wash out everything else
+  const scale = Math.log(1 + Math.max(1, max));
+  const canvas = createTexture(boardSize, (rgba) => {
+    for (let i = 0; i < counts.length; i++) {
+      if (!counts[i]) continue;
+      const [r, g, b] = sampleRamp(ramp, max > 1 ? Math.log(1 + counts[i]) / scale : 0);
+      rgba.set([r, g, b, 255], i * 4);
+    }
+  });
+  return {
+    canvas,
+    legend: {
+      title: 'Overwrites per pixel',
+      gradient: HEAT_RAMP,
+      entries: [
+        { color: HEAT_RAMP[0], label: '1' },
+        { color: HEAT_RAMP[HEAT_RAMP.length - 1], label: max.toLocaleString() }
+      ]
+    }
+  };
+}
+
+/** Shade pixels by time since their last placement, newest brightest */
+export function buildAgeTexture(events: readonly PixelHistoryEvent[], boardSize: number, nowMs: number): AnalyticsTexture {
+  const lastPlaced = new Float64Array(boardSize * boardSize);
+  let oldest = nowMs;
+  for (const ev of events) {
+    if (!inBoard(ev, boardSize)) continue;
+    lastPlaced[ev.y * boardSize + ev.x] = ev.timestamp;
+  }
+  for (const timestamp of lastPlaced) {
+    if (timestamp && timestamp < oldest) oldest = timestamp;
+  }
+  const maxAgeSeconds = Math.max(1, (nowMs - oldest) / 1000);
+  const scale = Math.log(1 + maxAgeSeconds);
+  const ramp = AGE_RAMP.map(hexToRgb);
+  const canvas = createTexture(boardSize, (rgba) => {
+    for (let i = 0; i < lastPlaced.length; i++) {
+      if (!lastPlaced[i]) continue;
+      const ageSeconds = Math.max(0, (nowMs - lastPlaced[i]) / 1000);
+      const [r, g, b] = sampleRamp(ramp, Math.log(1 + ageSeconds) / scale);
+      rgba.set([r, g, b, 255], i * 4);
+    }
+  });
+  return {
+    canvas,
+    legend: {
+      title: 'Time since last placement',
+      gradient: AGE_RAMP,
+      entries: [
+        { color: AGE_RAMP[0], label: 'now' },
+        { color: AGE_RAMP[AGE_RAMP.length - 1], label: formatDuration(maxAgeSeconds) }
+      ]
+    }
+  };
+}
+
+/** Color each pixel by the function its latest placement went through */
+export function buildProvenanceTexture(
+  events: readonly PixelHistoryEvent[],
+  boardSize: number,
+  isProgrammable: (ev: PixelHistoryEvent) => boolean
+): AnalyticsTexture {
+  const kind = new Uint8Array(boardSize * boardSize);
+  let standard = 0;
+  let programmable = 0;
+  for (const ev of events) {
+    if (!inBoard(ev, boardSize)) continue;
+    kind[ev.y * boardSize + ev.x] = isProgrammable(ev) ? 2 : 1;
+  }
+  const colors = [null, hexToRgb(PROVENANCE_COLORS.standard), hexToRgb(PROVENANCE_COLORS.programmable)];
+  const canvas = createTexture(boardSize, (rgba) => {
+    for (let i = 0; i < kind.length; i++) {
+      const color = colors[kind[i]];
+      if (!color) continue;
+      if (kind[i] === 2) programmable++;
+      else standard++;
+      rgba.set([...color, 255], i * 4);
+    }
+  });
+  return {
+    canvas,
+    legend: {
+      title: 'Placement type (latest)',
+      entries: [
+        { color: PROVENANCE_COLORS.standard, label: `placePixel (${standard.toLocaleString()})` },
+        { color: PROVENANCE_COLORS.programmable, label: `Programmable Data (${programmable.toLocaleString()})` }
+      ]
+    }
+  };
+}
+
+export function drawAnalyticsTexture(
+  ctx: RenderContext,
+  viewport: CanvasViewport,
+  texture: AnalyticsTexture,
+  opacity: number
+) {
+  const { zoom, panX, panY } = viewport;
+  ctx.save();
+  ctx.globalAlpha = opacity;
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(texture.canvas, panX, panY, texture.canvas.width * zoom, texture.canvas.height * zoom);
+  ctx.restore();
+}
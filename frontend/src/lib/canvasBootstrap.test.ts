@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { bootstrapFromTiles, decodePackedTile, planTiles } from './canvasBootstrap';
+import { fetchPixelInfo, fetchPixelsPacked } from './contract';
+
+vi.mock('./contract', () => ({
+  fetchPixelsPacked: vi.fn(),
+  fetchPixelInfo: vi.fn(),
+}));
+
+// 2x2 tile at (10, 20): red, black, empty, white (black and empty both read 0x000000)
+const tile = { x: 10, y: 20, cols: 2, rows: 2 };
+const bytes = new Uint8Array([0xff, 0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xff, 0xff]);
+
+describe('planTiles', () => {
+  it('covers the board with edge tiles clipped to it', () => {
+    expect(planTiles(5, 4)).toEqual([
+      { x: 0, y: 0, cols: 4, rows: 4 },
+      { x: 4, y: 0, cols: 1, rows: 4 },
+      { x: 0, y: 4, cols: 4, rows: 1 },
+      { x: 4, y: 4, cols: 1, rows: 1 },
+    ]);
+  });
+});
+
+describe('decodePackedTile', () => {
+  it('decodes colored cells and leaves 0x000000 cells unresolved', () => {
+    expect(decodePackedTile(tile, bytes)).toEqual({
+      pixels: [{ x: 10, y: 20, color: '#ff0000' }, { x: 11, y: 21, color: '#ffffff' }],
+      blankCells: [{ x: 11, y: 20 }, { x: 10, y: 21 }],
+    });
+  });
+
+  it('rejects a byte length that does not match the tile', () => {
+    expect(() => decodePackedTile(tile, bytes.slice(3))).toThrow('returned 9 bytes, expected 12');
+  });
+});
+
+describe('bootstrapFromTiles', () => {
+  // 2x2 board read as one tile; only (1, 0) was ever placed among the blank cells
+  const placedBlack = new Set(['1_0']);
+
+  beforeEach(() => {
+    vi.mocked(fetchPixelsPacked).mockReset().mockResolvedValue(new Uint8Array([0, 0, 0x12, 0, 0, 0, 0, 0, 0, 0, 0, 0]));
+    vi.mocked(fetchPixelInfo).mockReset().mockImplementation(async (x, y) => ({
+      x,
+      y,
+      color: placedBlack.has(`${x}_${y}`) ? '#000000' : null,
+      placedBy: '0x0',
+      timestamp: placedBlack.has(`${x}_${y}`) ? 1700000000 : 0,
+      irysTxId: '',
+      isProgrammableData: false,
+    }));
+  });
+
+  it('keeps black pixels and drops never placed cells, reading everything at one block', async () => {
+    const result = await bootstrapFromTiles({ boardSize: 2, blockNumber: 77, tileSize: 2 });
+
+    expect(result).toEqual({
+      blockNumber: 77,
+      pixels: [{ x: 0, y: 0, color: '#000012' }, { x: 1, y: 0, color: '#000000' }],
+    });
+    expect(fetchPixelsPacked).toHaveBeenCalledWith(0, 0, 2, 2, 77);
+    expect(vi.mocked(fetchPixelInfo).mock.calls).toEqual([[1, 0, 77], [0, 1, 77], [1, 1, 77]]);
+  });
+
+  it('checks only 0x000000 cells individually', async () => {
+    vi.mocked(fetchPixelsPacked).mockResolvedValue(new Uint8Array([1, 0, 0, 2, 0, 0, 3, 0, 0, 4, 0, 0]));
+    const result = await bootstrapFromTiles({ boardSize: 2, blockNumber: 77, tileSize: 2 });
+
+    expect(result.pixels).toHaveLength(4);
+    expect(fetchPixelInfo).not.toHaveBeenCalled();
+  });
+
+  it('gives up before checking cells when there are more blank cells than the limit', async () => {
+    await expect(bootstrapFromTiles({ boardSize: 2, blockNumber: 77, tileSize: 2, blankCellLimit: 2 }))
+      .rejects.toThrow('More than 2 blank cells');
+    expect(fetchPixelInfo).not.toHaveBeenCalled();
+  });
+
+  it('fails when a blank cell check keeps failing', async () => {
+    vi.useFakeTimers();
+    try {
+      vi.mocked(fetchPixelInfo).mockRejectedValue(new Error('rpc down'));
+      const result = bootstrapFromTiles({ boardSize: 2, blockNumber: 77, tileSize: 2, concurrency: 1 });
+      const assertion = expect(result).rejects.toThrow('rpc down');
+      await vi.runAllTimersAsync();
+      await assertion;
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,167 @@
+import type { PixelCoord } from './canvasRenderer';
+import { fetchPixelInfo, fetchPixelsPacked } from './contract';
+
+// Each tile is one eth_call; getPixelsPacked reads a storage slot per pixel, so
+// keep tiles small enough to stay under typical RPC gas caps for calls
+export const BOOTSTRAP_TILE_SIZE = 32;
+export const BOOTSTRAP_CONCURRENCY = 6;
+// Blank cells each cost a getPixel call to tell black from empty; past this many, replaying events is cheaper
+export const BOOTSTRAP_BLANK_CELL_LIMIT = 4096;
+const TILE_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 500;
+
+export interface CanvasTile {
+  x: number;
+  y: number;
+  cols: number;
+  rows: number;
+}
+
+export interface BootstrapPixel {
+  x: number;
+  y: number;
+  color: string;
+}
+
+export interface BootstrapResult {
+  /** Block the tiles were read at; live tailing continues from the next one */
+  blockNumber: number;
+  pixels: BootstrapPixel[];
+}
+
+export interface BootstrapOptions {
+  boardSize: number;
+  blockNumber: number;
+  tileSize?: number;
+  concurrency?: number;
+  blankCellLimit?: number;
+  onProgress?: (tilesDone: number, tilesTotal: number) => void;
+  isCancelled?: () => boolean;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Row-major tiles covering the board; edge tiles are clipped to it */
+export function planTiles(boardSize: number, tileSize: number): CanvasTile[] {
+  const tiles: CanvasTile[] = [];
+  for (let y = 0; y < boardSize; y += tileSize) {
+    for (let x = 0; x < boardSize; x += tileSize) {
+      tiles.push({ x, y, cols: Math.min(tileSize, boardSize - x), rows: Math.min(tileSize, boardSize - y) });
+    }
+  }
+  return tiles;
+}
+
+export interface DecodedTile {
+  pixels: BootstrapPixel[];
+  /** Cells that read 0x000000, which getPixelsPacked returns for both unplaced and black pixels */
+  blankCells: PixelCoord[];
+}
+
+/** Decode a tile's packed RGB bytes; 0x000000 cells are left for the caller to resolve */
+export function decodePackedTile(tile: CanvasTile, bytes: Uint8Array): DecodedTile {
+  const cells = tile.rows * tile.cols;
+  if (bytes.length !== cells * 3) {
+    throw new Error(`Tile (${tile.x}, ${tile.y}) returned ${bytes.length} bytes, expected ${cells * 3}`);
+  }
+  const pixels: BootstrapPixel[] = [];
+  const blankCells: PixelCoord[] = [];
+  for (let row = 0; row < tile.rows; row++) {
+    for (let col = 0; col < tile.cols; col++) {
+      const offset = (row * tile.cols + col) * 3;
+      const value = (bytes[offset] << 16) | (bytes[offset + 1] << 8) | bytes[offset + 2];
+      const x = tile.x + col;
+      const y = tile.y + row;
+      if (value) {
+        pixels.push({ x, y, color: `#${value.toString(16).padStart(6, '0')}` });
+      } else {
+        blankCells.push({ x, y });
+      }
+    }
+  }
+  return { pixels, blankCells };
+}
+
+/** Run worker over items with at most `limit` in flight; results keep item order */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+  const run = async () => {
+    // After a failure the other workers stop taking items instead of running on unobserved
+    while (next < items.length && !failed) {
+      const index = next++;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (e) {
+        failed = true;
+        throw e;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, run));
+  return results;
+}
+
+async function withRetries<T>(read: () => Promise<T>): Promise<T> {
+  let lastError: unknown;
+  for (let attempt = 0; attempt < TILE_ATTEMPTS; attempt++) {
+    try {
+      return await read();
+    } catch (e) {
+      lastError = e;
+      if (attempt < TILE_ATTEMPTS - 1) await wait(RETRY_DELAY_MS * (attempt + 1));
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * Read the whole canvas as it stood at `blockNumber` via getPixelsPacked tiles.
+ * Every read is pinned to the same block so the result is one consistent
+ * state that PixelPlaced tailing can continue from. Cells reading 0x000000
+ * are checked one by one with getPixel, whose timestamp tells a black pixel
+ * from an empty one. Throws when more than `blankCellLimit` cells need that
+ * check (a mostly empty canvas is cheaper to replay), if any read still fails
+ * after retries, or when cancelled, leaving the caller to fall back to
+ * replaying events.
+ */
+export async function bootstrapFromTiles({
+  boardSize,
+  blockNumber,
+  tileSize = BOOTSTRAP_TILE_SIZE,
+  concurrency = BOOTSTRAP_CONCURRENCY,
+  blankCellLimit = BOOTSTRAP_BLANK_CELL_LIMIT,
+  onProgress,
+  isCancelled
+}: BootstrapOptions): Promise<BootstrapResult> {
+  const tiles = planTiles(boardSize, tileSize);
+  const pixels: BootstrapPixel[] = [];
+  const blankCells: PixelCoord[] = [];
+  let done = 0;
+  onProgress?.(0, tiles.length);
+  await mapWithConcurrency(tiles, concurrency, async (tile) => {
+    if (isCancelled?.()) throw new Error('Bootstrap cancelled');
+    const decoded = decodePackedTile(tile, await withRetries(() => fetchPixelsPacked(tile.x, tile.y, tile.rows, tile.cols, blockNumber)));
+    pixels.push(...decoded.pixels);
+    blankCells.push(...decoded.blankCells);
+    // Stop reading tiles as soon as the blank cells are too many to check
+    if (blankCells.length > blankCellLimit) {
+      throw new Error(`More than ${blankCellLimit} blank cells to tell apart from black pixels`);
+    }
+    onProgress?.(++done, tiles.length);
+  });
+
+  const placed = await mapWithConcurrency(blankCells, concurrency, async ({ x, y }) => {
+    if (isCancelled?.()) throw new Error('Bootstrap cancelled');
+    return (await withRetries(() => fetchPixelInfo(x, y, blockNumber))).timestamp > 0;
+  });
+  blankCells.forEach(({ x, y }, i) => {
+    if (placed[i]) pixels.push({ x, y, color: '#000000' });
+  });
+  return { blockNumber, pixels };
+}
@@ -0,0 +1,96 @@
+import type { CanvasHistory, HistoryPixel } from './canvasHistory';
+
+/** A pixel whose color differs between the two ends of a diff */
+export interface PixelDiffEntry {
+  x: number;
+  y: number;
+  before: HistoryPixel | null;
+  after: HistoryPixel;
+}
+
+/** Activity of one address inside the diffed range */
+export interface AddressActivity {
+  address: string;
+  // Every placement in the range, including overwritten ones
+  placements: number;
+  // Changed pixels whose final color came from this address
+  changedPixels: number;
+}
+
+export interface CanvasDiff {
+  fromPosition: number;
+  toPosition: number;
+  // Blocks of the last events included at each end (null = empty board)
+  fromBlock: number | null;
+  toBlock: number | null;
+  placements: number;
+  changed: PixelDiffEntry[];
+  contributors: AddressActivity[];
+}
+
+const coordKey = (x: number, y: number) => `${x}_${y}`;
+
+/**
+ * Compare the board at two history positions.
+ * Pixels repainted back to their original color count as placements but not as changes.
+ */
+export function diffCanvasHistory(history: CanvasHistory, fromPosition: number, toPosition: number): CanvasDiff {
+  const from = Math.max(0, Math.min(fromPosition, toPosition, history.length));
+  const to = Math.min(history.length, Math.max(fromPosition, toPosition));
+
+  const before = new Map<string, HistoryPixel>();
+  for (const pixel of history.stateAt(from)) before.set(coordKey(pixel.x, pixel.y), pixel);
+
+  const changed: PixelDiffEntry[] = [];
+  for (const after of history.changesBetween(from, to)) {
+    const previous = before.get(coordKey(after.x, after.y)) ?? null;
+    if (previous && previous.color === after.color) continue;
+    changed.push({ x: after.x, y: after.y, before: previous, after });
+  }
+
+  const activity = new Map<string, AddressActivity>();
+  const activityFor = (address: string) => {
+    const key = address.toLowerCase();
+    let entry = activity.get(key);
+    if (!entry) {
+      entry = { address, placements: 0, changedPixels: 0 };
+      activity.set(key, entry);
+    }
+    return entry;
+  };
+  for (let i = from; i < to; i++) {
+    activityFor(history.events[i].owner).placements++;
+  }
+  for (const entry of changed) {
+    if (entry.after.owner) activityFor(entry.after.owner).changedPixels++;
+  }
+
+  return {
+    fromPosition: from,
+    toPosition: to,
+    fromBlock: history.eventBefore(from)?.blockNumber ?? null,
+    toBlock: history.eventBefore(to)?.blockNumber ?? null,
+    placements: to - from,
+    changed,
+    contributors: Array.from(activity.values()).sort(
+      (a, b) => b.placements - a.placements || b.changedPixels - a.changedPixels
+    ),
+  };
+}
+
+/**
+ * Plain-text summary of a diff, e.g. for daily activity write-ups
+ */
+export function formatDiffSummary(diff: CanvasDiff, range: { from: string; to: string }, maxAddresses = 10): string {
+  const lines = [
+    `Canvas activity ${range.from} → ${range.to}`,
+    `${diff.placements.toLocaleString()} placements, ${diff.changed.length.toLocaleString()} pixels changed, ${diff.contributors.length.toLocaleString()} addresses`,
+  ];
+  if (diff.contributors.length) {
+    lines.push('', 'Top addresses:');
+    for (const entry of diff.contributors.slice(0, maxAddresses)) {
+      lines.push(`- ${entry.address}: ${entry.placements} placements, ${entry.changedPixels} pixels changed`);
+    }
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,256 @@
+// Image export rendered straight from the pixel backing store (never from the
+// on-screen canvas), with provenance metadata embedded in the file.
+import {
+  GRID_MIN_ZOOM,
+  drawGridOverlay,
+  drawPixelLayer,
+  type PixelBackingStore,
+  type PixelRegion,
+  type RenderTheme
+} from './canvasRenderer';
+
+export type ExportFormat = 'png' | 'webp';
+
+export interface ExportOptions {
+  region: PixelRegion;
+  // Integer upscale factor: each board pixel becomes scale×scale image pixels
+  scale: number;
+  showGrid: boolean;
+  format: ExportFormat;
+}
+
+export interface ExportMetadata {
+  contractAddress: string;
+  chainId: number;
+  syncedBlock: number | null;
+}
+
+export const EXPORT_SCALES = [1, 2, 4, 8, 16];
+// Stay well inside browser canvas limits
+export const MAX_EXPORT_DIMENSION = 8192;
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+/**
+ * Grid lines are only drawn where a board pixel is large enough to frame
+ */
+export function canExportGrid(scale: number): boolean {
+  return scale >= GRID_MIN_ZOOM;
+}
+
+export function getMaxExportScale(region: PixelRegion): number {
+  const longest = Math.max(region.width, region.height, 1);
+  const allowed = EXPORT_SCALES.filter(scale => longest * scale <= MAX_EXPORT_DIMENSION);
+  return allowed.length ? allowed[allowed.length - 1] : 1;
+}
+
+/**
+ * Clamp a region to the board and round it to whole pixels
+ */
+export function clampExportRegion(region: PixelRegion, boardSize: number): PixelRegion {
+  const x = Math.max(0, Math.min(boardSize - 1, Math.floor(region.x)));
+  const y = Math.max(0, Math.min(boardSize - 1, Math.floor(region.y)));
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(boardSize - x, Math.floor(region.width))),
+    height: Math.max(1, Math.min(boardSize - y, Math.floor(region.height))),
+  };
+}
+
+/**
+ * Draw the region at the requested scale. Unplaced pixels stay transparent.
+ */
+export function renderExportCanvas(
+  store: PixelBackingStore,
+  options: Pick<ExportOptions, 'region' | 'scale' | 'showGrid'>,
+  theme: RenderTheme
+): HTMLCanvasElement {
+  const { region, scale } = options;
+  const canvas = document.createElement('canvas');
+  canvas.width = region.width * scale;
+  canvas.height = region.height * scale;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  const viewport = {
+    zoom: scale,
+    panX: -region.x * scale,
+    panY: -region.y * scale,
+    width: canvas.width,
+    height: canvas.height,
+  };
+  drawPixelLayer(ctx, store, viewport, { ...theme, background: 'rgba(0, 0, 0, 0)' });
+  if (options.showGrid && canExportGrid(scale)) {
+    drawGridOverlay(ctx, viewport, store.size, theme, region);
+  }
+  return canvas;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Image encoding failed'))), type, quality);
+  });
+
+const metadataEntries = (metadata: ExportMetadata, options: ExportOptions): [string, string][] => [
+  ['Software', 'r/Place on Irys'],
+  ['Source', metadata.contractAddress],
+  ['Chain ID', String(metadata.chainId)],
+  ['Synced Block', metadata.syncedBlock === null ? 'unknown' : String(metadata.syncedBlock)],
+  ['Region', `${options.region.x},${options.region.y},${options.region.width}x${options.region.height}`],
+  ['Scale', String(options.scale)],
+  ['Creation Time', new Date().toISOString()],
+];
+
+/**
+ * Encode the export and embed metadata (PNG tEXt chunks or WebP XMP)
+ */
+export async function exportCanvasImage(
+  store: PixelBackingStore,
+  options: ExportOptions,
+  metadata: ExportMetadata,
+  theme: RenderTheme
+): Promise<Blob> {
+  const canvas = renderExportCanvas(store, options, theme);
+  const mimeType = EXPORT_MIME_TYPES[options.format];
+  // Chromium switches its WebP encoder to lossless at quality 1
+  const blob = await canvasToBlob(canvas, mimeType, options.format === 'webp' ? 1 : undefined);
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const entries = metadataEntries(metadata, options);
+
+  if (options.format === 'png') {
+    return new Blob([embedPngText(bytes, entries)], { type: mimeType });
+  }
+
+  if (blob.type !== mimeType || !isLosslessWebp(bytes)) {
+    throw new Error('This browser cannot encode lossless WebP; export as PNG instead');
+  }
+  return new Blob([embedWebpXmp(bytes, buildXmp(entries), canvas.width, canvas.height)], { type: mimeType });
+}
+
+// --- PNG ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+const latin1 = (text: string) => Uint8Array.from(text, ch => {
+  const code = ch.charCodeAt(0);
+  return code < 256 ? code : 0x3f;
+});
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(latin1(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/**
+ * Insert tEXt chunks before IEND
+ */
+export function embedPngText(png: Uint8Array, entries: [string, string][]): Uint8Array<ArrayBuffer> {
+  const iendOffset = png.length - 12;
+  const chunks = entries.map(([key, value]) => {
+    const keyBytes = latin1(key);
+    const valueBytes = latin1(value);
+    const data = new Uint8Array(keyBytes.length + 1 + valueBytes.length);
+    data.set(keyBytes, 0);
+    data.set(valueBytes, keyBytes.length + 1);
+    return pngChunk('tEXt', data);
+  });
+  const extra = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const out = new Uint8Array(png.length + extra);
+  out.set(png.subarray(0, iendOffset), 0);
+  let offset = iendOffset;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  out.set(png.subarray(iendOffset), offset);
+  return out;
+}
+
+// --- WebP ---
+
+const fourCC = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+// Simple-format WebP whose only image chunk is VP8L
+function isLosslessWebp(bytes: Uint8Array): boolean {
+  return bytes.length > 20 && fourCC(bytes, 0) === 'RIFF' && fourCC(bytes, 8) === 'WEBP' &&
+    fourCC(bytes, 12) === 'VP8L';
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+function buildXmp(entries: [string, string][]): string {
+  const fields = entries
+    .map(([key, value]) => `   <pc:${key.replace(/\s+/g, '')}>${escapeXml(value)}</pc:${key.replace(/\s+/g, '')}>`)
+    .join('\n');
+  return [
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '  <rdf:Description rdf:about="" xmlns:pc="https://irys.xyz/ns/pixel-canvas/1.0/">',
+    fields,
+    '  </rdf:Description>',
+    ' </rdf:RDF>',
+    '</x:xmpmeta>',
+  ].join('\n');
+}
+
+function riffChunk(type: string, data: Uint8Array): Uint8Array {
+  const padded = data.length + (data.length & 1);
+  const chunk = new Uint8Array(8 + padded);
+  chunk.set(latin1(type), 0);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+/**
+ * Rewrap a simple lossless WebP in the extended (VP8X) layout with an XMP chunk
+ */
+export function embedWebpXmp(webp: Uint8Array, xmp: string, width: number, height: number): Uint8Array<ArrayBuffer> {
+  const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+  const vp8lSize = view.getUint32(16, true);
+  const vp8l = webp.subarray(12, 20 + vp8lSize + (vp8lSize & 1));
+
+  const header = new Uint8Array(10);
+  // Flags: alpha (0x10) + XMP (0x04); canvas size is stored minus one, 24-bit LE
+  header[0] = 0x10 | 0x04;
+  const w = width - 1;
+  const h = height - 1;
+  header.set([w & 0xff, (w >> 8) & 0xff, (w >> 16) & 0xff, h & 0xff, (h >> 8) & 0xff, (h >> 16) & 0xff], 4);
+
+  const vp8x = riffChunk('VP8X', header);
+  const xmpChunk = riffChunk('XMP ', new TextEncoder().encode(xmp));
+  const bodyLength = 4 + vp8x.length + vp8l.length + xmpChunk.length;
+  const out = new Uint8Array(8 + bodyLength);
+  out.set(latin1('RIFF'), 0);
+  new DataView(out.buffer).setUint32(4, bodyLength, true);
+  out.set(latin1('WEBP'), 8);
+  out.set(vp8x, 12);
+  out.set(vp8l, 12 + vp8x.length);
+  out.set(xmpChunk, 12 + vp8x.length + vp8l.length);
+  return out;
+}
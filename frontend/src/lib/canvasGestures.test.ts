@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TouchGestureController } from './canvasGestures';
+
+const touch = (identifier: number, clientX: number, clientY: number) => [{ identifier, clientX, clientY }];
+
+describe('TouchGestureController', () => {
+  // Fling frames are queued but never run, so a fling keeps going until a touch stops it
+  let frames: Map<number, FrameRequestCallback>;
+  let nextFrame: number;
+  const handlers = { onPan: vi.fn(), onPinch: vi.fn(), onTap: vi.fn(), onActiveChange: vi.fn() };
+
+  beforeEach(() => {
+    frames = new Map();
+    nextFrame = 1;
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+      frames.set(nextFrame, callback);
+      return nextFrame++;
+    });
+    vi.stubGlobal('cancelAnimationFrame', (id: number) => frames.delete(id));
+    Object.values(handlers).forEach(handler => handler.mockReset());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // Quick one-finger swipe to the right, released while still moving
+  const fling = (gestures: TouchGestureController) => {
+    gestures.handleTouchStart(touch(1, 0, 0), 0);
+    gestures.handleTouchMove(touch(1, 20, 0), 16);
+    gestures.handleTouchMove(touch(1, 40, 0), 32);
+    gestures.handleTouchEnd(touch(1, 40, 0), 40);
+  };
+
+  it('reports a short touch that stays within the slop as a tap', () => {
+    const gestures = new TouchGestureController(handlers);
+    gestures.handleTouchStart(touch(1, 10, 10), 0);
+    gestures.handleTouchMove(touch(1, 13, 12), 50);
+    gestures.handleTouchEnd(touch(1, 13, 12), 100);
+
+    expect(handlers.onTap).toHaveBeenCalledWith({ x: 10, y: 10 });
+    expect(handlers.onPan).not.toHaveBeenCalled();
+  });
+
+  it('starts inertia when a drag is released while moving', () => {
+    const gestures = new TouchGestureController(handlers);
+    fling(gestures);
+
+    expect(frames.size).toBe(1);
+    expect(handlers.onTap).not.toHaveBeenCalled();
+  });
+
+  it('does not tap when the touch only stops a running fling', () => {
+    const gestures = new TouchGestureController(handlers);
+    fling(gestures);
+
+    gestures.handleTouchStart(touch(2, 100, 100), 200);
+    gestures.handleTouchEnd(touch(2, 100, 100), 260);
+
+    expect(frames.size).toBe(0);
+    expect(handlers.onTap).not.toHaveBeenCalled();
+    expect(handlers.onActiveChange).toHaveBeenLastCalledWith(false);
+  });
+
+  it('taps again on the next touch after stopping a fling', () => {
+    const gestures = new TouchGestureController(handlers);
+    fling(gestures);
+    gestures.handleTouchStart(touch(2, 100, 100), 200);
+    gestures.handleTouchEnd(touch(2, 100, 100), 260);
+
+    gestures.handleTouchStart(touch(3, 50, 60), 400);
+    gestures.handleTouchEnd(touch(3, 50, 60), 450);
+
+    expect(handlers.onTap).toHaveBeenCalledTimes(1);
+    expect(handlers.onTap).toHaveBeenCalledWith({ x: 50, y: 60 });
+  });
+
+  it('never taps at the end of a pinch', () => {
+    const gestures = new TouchGestureController(handlers);
+    gestures.handleTouchStart(touch(1, 0, 0), 0);
+    gestures.handleTouchStart(touch(2, 100, 0), 10);
+    gestures.handleTouchEnd(touch(2, 100, 0), 60);
+    gestures.handleTouchEnd(touch(1, 0, 0), 80);
+
+    expect(handlers.onTap).not.toHaveBeenCalled();
+  });
+});
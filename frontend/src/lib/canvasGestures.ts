@@ -0,0 +1,260 @@
+// Touch gesture recognition for the pixel canvas: one-finger drag, two-finger
+// pan + pinch around the midpoint, inertial fling and tap detection.
+// All coordinates are client (CSS) pixels; the caller maps them to the surface.
+
+export interface GesturePoint {
+  x: number;
+  y: number;
+}
+
+export interface TouchGestureHandlers {
+  /** Move the view by a client-pixel delta */
+  onPan: (dx: number, dy: number) => void;
+  /** Scale the view by `scale` keeping `center` fixed */
+  onPinch: (scale: number, center: GesturePoint) => void;
+  /** A single short touch that did not move past the slop or stop a fling */
+  onTap: (point: GesturePoint) => void;
+  /** A single touch held in place past LONG_PRESS_DELAY; suppresses the tap */
+  onLongPress?: (point: GesturePoint) => void;
+  /** Called when a drag/pinch (or fling) begins and when it has fully settled */
+  onActiveChange?: (active: boolean) => void;
+}
+
+// Movement (client px) a finger may drift before the touch stops counting as a tap
+export const TAP_SLOP = 8;
+// Touches held longer than this are not taps
+export const TAP_MAX_DURATION = 400;
+export const LONG_PRESS_DELAY = 500;
+// Fling velocity (px/ms) below which inertia is not started / is stopped
+const FLING_MIN_VELOCITY = 0.15;
+const FLING_STOP_VELOCITY = 0.02;
+// Time constant (ms) of the exponential velocity decay while flinging
+const FLING_TIME_CONSTANT = 325;
+// Weight of the newest sample in the smoothed velocity estimate
+const VELOCITY_SMOOTHING = 0.6;
+// A release this long after the last move means the finger had stopped
+const FLING_RELEASE_WINDOW = 80;
+
+interface TrackedTouch {
+  x: number;
+  y: number;
+}
+
+type TouchLike = { identifier: number; clientX: number; clientY: number };
+
+const midpoint = (a: TrackedTouch, b: TrackedTouch): GesturePoint => ({
+  x: (a.x + b.x) / 2,
+  y: (a.y + b.y) / 2,
+});
+
+const distance = (a: TrackedTouch, b: TrackedTouch) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Turns raw touch events into pan/pinch/tap callbacks.
+ * Feed it every touchstart/move/end/cancel; it keeps its own finger state.
+ */
+export class TouchGestureController {
+  private touches = new Map<number, TrackedTouch>();
+  private startPoint: GesturePoint | null = null;
+  private startTime = 0;
+  // Set once the gesture can no longer end as a tap (moved, or had two fingers)
+  private isGesture = false;
+  private hadMultiTouch = false;
+  private active = false;
+  private velocity = { x: 0, y: 0 };
+  private lastMoveTime = 0;
+  private flingFrame: number | null = null;
+  private longPressTimer: ReturnType<typeof setTimeout> | null = null;
+  private longPressed = false;
+  // The touch landed on a running fling: it only stops the view, so it is never a tap
+  private stoppedFling = false;
+
+  constructor(private readonly handlers: TouchGestureHandlers) {}
+
+  handleTouchStart(changed: ArrayLike<TouchLike>, timeStamp: number) {
+    const wasFlinging = this.stopFling();
+    for (const touch of Array.from(changed)) {
+      this.touches.set(touch.identifier, { x: touch.clientX, y: touch.clientY });
+    }
+
+    if (this.touches.size === 1 && !this.isGesture) {
+      const [first] = this.touches.values();
+      this.startPoint = { x: first.x, y: first.y };
+      this.startTime = timeStamp;
+      this.hadMultiTouch = false;
+      this.longPressed = false;
+      this.stoppedFling = wasFlinging;
+      this.startLongPress();
+    } else if (this.touches.size > 1) {
+      this.hadMultiTouch = true;
+      this.cancelLongPress();
+      this.markGesture();
+    }
+    this.velocity = { x: 0, y: 0 };
+    this.lastMoveTime = timeStamp;
+  }
+
+  handleTouchMove(changed: ArrayLike<TouchLike>, timeStamp: number) {
+    const previous = this.primaryPair();
+    const prevCenter = previous.length === 2 ? midpoint(previous[0], previous[1]) : previous[0] && { ...previous[0] };
+    const prevSpread = previous.length === 2 ? distance(previous[0], previous[1]) : 0;
+
+    for (const touch of Array.from(changed)) {
+      const tracked = this.touches.get(touch.identifier);
+      if (tracked) {
+        tracked.x = touch.clientX;
+        tracked.y = touch.clientY;
+      }
+    }
+
+    const current = this.primaryPair();
+    if (!prevCenter || current.length !== previous.length) return;
+
+    const center = current.length === 2 ? midpoint(current[0], current[1]) : { ...current[0] };
+
+    if (!this.isGesture) {
+      if (!this.startPoint || Math.hypot(center.x - this.startPoint.x, center.y - this.startPoint.y) <= TAP_SLOP) {
+        return;
+      }
+      this.markGesture();
+    }
+
+    const dx = center.x - prevCenter.x;
+    const dy = center.y - prevCenter.y;
+    if (current.length === 2 && prevSpread > 0) {
+      const spread = distance(current[0], current[1]);
+      if (spread > 0 && spread !== prevSpread) {
+        this.handlers.onPinch(spread / prevSpread, prevCenter);
+      }
+    }
+    if (dx || dy) this.handlers.onPan(dx, dy);
+
+    const elapsed = timeStamp - this.lastMoveTime;
+    if (elapsed > 0) {
+      this.velocity = {
+        x: VELOCITY_SMOOTHING * (dx / elapsed) + (1 - VELOCITY_SMOOTHING) * this.velocity.x,
+        y: VELOCITY_SMOOTHING * (dy / elapsed) + (1 - VELOCITY_SMOOTHING) * this.velocity.y,
+      };
+    }
+    this.lastMoveTime = timeStamp;
+  }
+
+  handleTouchEnd(changed: ArrayLike<TouchLike>, timeStamp: number) {
+    for (const touch of Array.from(changed)) {
+      this.touches.delete(touch.identifier);
+    }
+    this.cancelLongPress();
+    if (this.touches.size > 0) {
+      // Lifting one finger of a pinch: carry on panning with the rest, without a fling
+      this.velocity = { x: 0, y: 0 };
+      this.lastMoveTime = timeStamp;
+      return;
+    }
+
+    const wasTap = !this.isGesture && !this.hadMultiTouch && !this.longPressed && !this.stoppedFling &&
+      this.startPoint !== null && timeStamp - this.startTime <= TAP_MAX_DURATION;
+    const tapPoint = this.startPoint;
+    this.startPoint = null;
+    this.isGesture = false;
+    this.hadMultiTouch = false;
+    this.longPressed = false;
+    this.stoppedFling = false;
+
+    if (wasTap && tapPoint) {
+      this.setActive(false);
+      this.handlers.onTap(tapPoint);
+      return;
+    }
+
+    const speed = Math.hypot(this.velocity.x, this.velocity.y);
+    if (timeStamp - this.lastMoveTime <= FLING_RELEASE_WINDOW && speed >= FLING_MIN_VELOCITY) {
+      this.startFling();
+    } else {
+      this.setActive(false);
+    }
+  }
+
+  /** touchcancel: drop the gesture without tapping or flinging */
+  handleTouchCancel(changed: ArrayLike<TouchLike>) {
+    for (const touch of Array.from(changed)) {
+      this.touches.delete(touch.identifier);
+    }
+    this.cancelLongPress();
+    if (this.touches.size > 0) return;
+    this.startPoint = null;
+    this.isGesture = false;
+    this.hadMultiTouch = false;
+    this.stoppedFling = false;
+    this.setActive(false);
+  }
+
+  dispose() {
+    this.stopFling();
+    this.cancelLongPress();
+    this.touches.clear();
+  }
+
+  // The first two fingers drive the gesture; extra fingers are ignored
+  private primaryPair(): TrackedTouch[] {
+    return Array.from(this.touches.values()).slice(0, 2);
+  }
+
+  private markGesture() {
+    this.cancelLongPress();
+    this.isGesture = true;
+    this.setActive(true);
+  }
+
+  private setActive(active: boolean) {
+    if (this.active === active) return;
+    this.active = active;
+    this.handlers.onActiveChange?.(active);
+  }
+
+  private startLongPress() {
+    this.cancelLongPress();
+    if (!this.handlers.onLongPress) return;
+    this.longPressTimer = setTimeout(() => {
+      this.longPressTimer = null;
+      if (!this.startPoint || this.isGesture || this.touches.size !== 1) return;
+      this.longPressed = true;
+      this.handlers.onLongPress?.(this.startPoint);
+    }, LONG_PRESS_DELAY);
+  }
+
+  private cancelLongPress() {
+    if (this.longPressTimer !== null) {
+      clearTimeout(this.longPressTimer);
+      this.longPressTimer = null;
+    }
+  }
+
+  private startFling() {
+    let { x: vx, y: vy } = this.velocity;
+    let last: number | null = null;
+
+    const step = (now: number) => {
+      const dt = last === null ? 16 : now - last;
+      last = now;
+      this.handlers.onPan(vx * dt, vy * dt);
+      const decay = Math.exp(-dt / FLING_TIME_CONSTANT);
+      vx *= decay;
+      vy *= decay;
+      if (Math.hypot(vx, vy) < FLING_STOP_VELOCITY) {
+        this.flingFrame = null;
+        this.setActive(false);
+        return;
+      }
+      this.flingFrame = requestAnimationFrame(step);
+    };
+    this.flingFrame = requestAnimationFrame(step);
+  }
+
+  /** Returns whether a fling was running */
+  private stopFling(): boolean {
+    if (this.flingFrame === null) return false;
+    cancelAnimationFrame(this.flingFrame);
+    this.flingFrame = null;
+    return true;
+  }
+}
@@ -0,0 +1,176 @@
+import type { PixelHistoryEvent } from './pixelEventLog';
+
+export interface HistoryPixel {
+  x: number;
+  y: number;
+  color: string;
+  owner?: string;
+  timestamp?: number;
+}
+
+type BoardState = Map<number, HistoryPixel>;
+
+// Aim for about this many cached checkpoints regardless of history length
+const TARGET_CHECKPOINTS = 24;
+const MIN_CHECKPOINT_INTERVAL = 2000;
+// Recently rebuilt states kept besides the fixed checkpoints
+const MAX_RECENT_STATES = 8;
+
+const coordKey = (x: number, y: number) => y * 65536 + x;
+
+const toPixel = (ev: PixelHistoryEvent): HistoryPixel => ({
+  x: ev.x,
+  y: ev.y,
+  color: ev.color,
+  owner: ev.owner,
+  timestamp: ev.timestamp,
+});
+
+/**
+ * Rebuilds board states from an ordered event list.
+ * A "position" is a number of events applied (0 = empty board). States are
+ * rebuilt from the nearest cached state at or before the target (a periodic
+ * checkpoint or a recently requested position), so stepping to a
+ * neighbouring block only replays the events in between.
+ * The event list may grow at the tail (see PixelEventLog); cached states stay valid.
+ */
+export class CanvasHistory {
+  private readonly checkpointInterval: number;
+  private readonly checkpoints = new Map<number, BoardState>([[0, new Map()]]);
+  // Insertion-ordered, oldest first
+  private readonly recent = new Map<number, BoardState>();
+
+  constructor(readonly events: readonly PixelHistoryEvent[]) {
+    this.checkpointInterval = Math.max(
+      MIN_CHECKPOINT_INTERVAL,
+      Math.ceil(events.length / TARGET_CHECKPOINTS)
+    );
+  }
+
+  get length(): number {
+    return this.events.length;
+  }
+
+  get firstBlock(): number | null {
+    return this.events.length ? this.events[0].blockNumber : null;
+  }
+
+  get lastBlock(): number | null {
+    return this.events.length ? this.events[this.events.length - 1].blockNumber : null;
+  }
+
+  /** Event that brought the board to `position`, if any */
+  eventBefore(position: number): PixelHistoryEvent | null {
+    return position > 0 ? this.events[Math.min(position, this.events.length) - 1] : null;
+  }
+
+  /** Position after every event up to and including `block` */
+  positionAtBlock(block: number): number {
+    return this.upperBound(ev => ev.blockNumber <= block);
+  }
+
+  /** Position after every event at or before `time` (ms) */
+  positionAtTime(time: number): number {
+    return this.upperBound(ev => ev.timestamp <= time);
+  }
+
+  /** Board at a position, as a pixel list */
+  stateAt(position: number): HistoryPixel[] {
+    return Array.from(this.boardAt(position).values());
+  }
+
+  /** Board after every event up to and including `block` */
+  stateAtBlock(block: number): HistoryPixel[] {
+    return this.stateAt(this.positionAtBlock(block));
+  }
+
+  /** Closest block before `block` that has placements, or null */
+  previousEventBlock(block: number): number | null {
+    const position = this.upperBound(ev => ev.blockNumber < block);
+    return position > 0 ? this.events[position - 1].blockNumber : null;
+  }
+
+  /** Closest block after `block` that has placements, or null */
+  nextEventBlock(block: number): number | null {
+    const position = this.positionAtBlock(block);
+    return position < this.events.length ? this.events[position].blockNumber : null;
+  }
+
+  /**
+   * Latest write per coordinate for events in [from, to), in event order
+   */
+  changesBetween(from: number, to: number): HistoryPixel[] {
+    const latest: BoardState = new Map();
+    const end = Math.min(to, this.events.length);
+    for (let i = Math.max(0, from); i < end; i++) {
+      const ev = this.events[i];
+      const key = coordKey(ev.x, ev.y);
+      latest.delete(key);
+      latest.set(key, toPixel(ev));
+    }
+    return Array.from(latest.values());
+  }
+
+  private boardAt(position: number): BoardState {
+    const target = Math.max(0, Math.min(position, this.events.length));
+    const cached = this.recent.get(target);
+    if (cached) {
+      // Refresh its place in the LRU order
+      this.recent.delete(target);
+      this.recent.set(target, cached);
+      return cached;
+    }
+
+    let start = Math.floor(target / this.checkpointInterval) * this.checkpointInterval;
+    while (!this.checkpoints.has(start)) start -= this.checkpointInterval;
+    for (const recentPosition of this.recent.keys()) {
+      if (recentPosition <= target && recentPosition > start) start = recentPosition;
+    }
+    const source = this.recent.get(start) ?? this.checkpoints.get(start);
+
+    // Walk forward from the closest cached state, caching checkpoints crossed
+    const board: BoardState = new Map(source);
+    for (let i = start; i < target; i++) {
+      const ev = this.events[i];
+      board.set(coordKey(ev.x, ev.y), toPixel(ev));
+      if ((i + 1) % this.checkpointInterval === 0 && !this.checkpoints.has(i + 1)) {
+        this.checkpoints.set(i + 1, new Map(board));
+      }
+    }
+
+    if (!this.checkpoints.has(target)) {
+      this.recent.set(target, board);
+      if (this.recent.size > MAX_RECENT_STATES) {
+        const oldest = this.recent.keys().next().value;
+        if (oldest !== undefined) this.recent.delete(oldest);
+      }
+    }
+    return board;
+  }
+
+  // First index whose event fails `predicate` (events are in block order)
+  private upperBound(predicate: (ev: PixelHistoryEvent) => boolean): number {
+    let lo = 0;
+    let hi = this.events.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (predicate(this.events[mid])) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+}
+
+const sharedHistories = new WeakMap<object, CanvasHistory>();
+
+/**
+ * One history per event list, so every history view reuses the same cached states
+ */
+export function getCanvasHistory(events: readonly PixelHistoryEvent[]): CanvasHistory {
+  let history = sharedHistories.get(events);
+  if (!history) {
+    history = new CanvasHistory(events);
+    sharedHistories.set(events, history);
+  }
+  return history;
+}
@@ -0,0 +1,609 @@
+// ImageData-backed renderer for the pixel canvas.
+// The whole board lives in a single RGBA texture; pixel changes only touch
+// their own texel, and drawing the viewport is one scaled drawImage blit
+// followed by cheap overlay passes (grid, Irys borders, hover).
+
+export interface RenderablePixel {
+  x: number;
+  y: number;
+  color: string;
+  irysId?: string;
+}
+
+export interface PixelCoord {
+  x: number;
+  y: number;
+}
+
+/** Rectangle in board (pixel grid) coordinates */
+export interface PixelRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Incremental update pushed by the sync layer; seq increases with every batch */
+export interface PixelChangeSet {
+  seq: number;
+  added: RenderablePixel[];
+  changed: RenderablePixel[];
+}
+
+export interface CanvasViewport {
+  zoom: number;
+  panX: number;
+  panY: number;
+  width: number;
+  height: number;
+}
+
+export interface RenderTheme {
+  background: string;
+  grid: string;
+  primary: string;
+}
+
+export interface HoverState {
+  x: number;
+  y: number;
+  color: string;
+}
+
+export interface RenderOptions {
+  showGrid: boolean;
+  showIrysBorders: boolean;
+  hover?: HoverState | null;
+}
+
+/**
+ * Extra pass drawn over the board by a feature (diff highlights, ...).
+ * Overlays live on their own layer above the render surface, so they never
+ * touch the backing store and work the same in main-thread and worker modes.
+ */
+export interface CanvasOverlay {
+  key: string;
+  draw: (ctx: RenderContext, viewport: CanvasViewport) => void;
+}
+
+type BackingSurface = HTMLCanvasElement | OffscreenCanvas;
+type BackingContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Zoom thresholds for the overlay passes
+export const GRID_MIN_ZOOM = 6;
+export const IRYS_BORDER_MIN_ZOOM = 8;
+export const HOVER_MIN_ZOOM = 4;
+
+/**
+ * Parse a #rgb / #rrggbb color into a packed 0xRRGGBB value
+ */
+export function parseHexColor(color: string): number | null {
+  if (!color) return null;
+  let hex = color.trim();
+  if (hex.startsWith('#')) hex = hex.slice(1);
+  else if (hex.startsWith('0x')) hex = hex.slice(2);
+  if (hex.length === 3) {
+    hex = hex[0] + hex[0] + hex[1] + hex[1] + hex[2] + hex[2];
+  }
+  if (hex.length !== 6) return null;
+  const value = parseInt(hex, 16);
+  return Number.isNaN(value) ? null : value;
+}
+
+/**
+ * Format a packed 0xRRGGBB value as #rrggbb
+ */
+export function formatHexColor(rgb: number): string {
+  return `#${rgb.toString(16).padStart(6, '0')}`;
+}
+
+function createSurface(size: number): BackingSurface {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(size, size);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  return canvas;
+}
+
+/**
+ * Size x size RGBA backing store for the board.
+ * Writes go into the ImageData buffer and are uploaded to the blit surface
+ * lazily, limited to the bounding box of texels touched since the last flush.
+ */
+export class PixelBackingStore {
+  readonly size: number;
+  readonly imageData: ImageData;
+  private readonly surface: BackingSurface;
+  private readonly surfaceCtx: BackingContext;
+  private readonly irysFlags: Uint8Array;
+  private readonly stamps: Uint32Array;
+  private occupied = new Set<number>();
+  private generation = 0;
+  private dirty: { minX: number; minY: number; maxX: number; maxY: number } | null = null;
+
+  constructor(size: number) {
+    this.size = size;
+    this.imageData = new ImageData(size, size);
+    this.surface = createSurface(size);
+    const ctx = this.surface.getContext('2d') as BackingContext | null;
+    if (!ctx) {
+      throw new Error('2D canvas context is not available');
+    }
+    this.surfaceCtx = ctx;
+    this.irysFlags = new Uint8Array(size * size);
+    this.stamps = new Uint32Array(size * size);
+  }
+
+  private inBounds(x: number, y: number) {
+    return x >= 0 && y >= 0 && x < this.size && y < this.size;
+  }
+
+  private markDirty(x: number, y: number) {
+    if (!this.dirty) {
+      this.dirty = { minX: x, minY: y, maxX: x, maxY: y };
+      return;
+    }
+    if (x < this.dirty.minX) this.dirty.minX = x;
+    if (y < this.dirty.minY) this.dirty.minY = y;
+    if (x > this.dirty.maxX) this.dirty.maxX = x;
+    if (y > this.dirty.maxY) this.dirty.maxY = y;
+  }
+
+  /**
+   * Write a single texel. Returns true when the stored value changed.
+   */
+  setPixel(x: number, y: number, color: string, hasIrysData = false): boolean {
+    const rgb = parseHexColor(color);
+    if (rgb === null) return false;
+    return this.setPixelRGB(x, y, rgb, hasIrysData);
+  }
+
+  /**
+   * Write a single texel from a packed 0xRRGGBB value
+   */
+  setPixelRGB(x: number, y: number, rgb: number, hasIrysData = false): boolean {
+    if (!this.inBounds(x, y)) return false;
+    const index = y * this.size + x;
+    const offset = index * 4;
+    const data = this.imageData.data;
+    const r = (rgb >> 16) & 0xff;
+    const g = (rgb >> 8) & 0xff;
+    const b = rgb & 0xff;
+    const irys = hasIrysData ? 1 : 0;
+
+    this.occupied.add(index);
+    if (data[offset] === r && data[offset + 1] === g && data[offset + 2] === b &&
+        data[offset + 3] === 255 && this.irysFlags[index] === irys) {
+      return false;
+    }
+
+    data[offset] = r;
+    data[offset + 1] = g;
+    data[offset + 2] = b;
+    data[offset + 3] = 255;
+    this.irysFlags[index] = irys;
+    this.markDirty(x, y);
+    return true;
+  }
+
+  /**
+   * Reset a texel back to empty (transparent). Returns true when it was set.
+   */
+  clearPixel(x: number, y: number): boolean {
+    if (!this.inBounds(x, y)) return false;
+    const index = y * this.size + x;
+    if (!this.occupied.delete(index)) return false;
+
+    const offset = index * 4;
+    const data = this.imageData.data;
+    data[offset] = 0;
+    data[offset + 1] = 0;
+    data[offset + 2] = 0;
+    data[offset + 3] = 0;
+    this.irysFlags[index] = 0;
+    this.markDirty(x, y);
+    return true;
+  }
+
+  /**
+   * Reconcile the store with a full pixel list.
+   * Returns the coordinates whose texels changed, including removed pixels.
+   */
+  applyPixels(pixels: RenderablePixel[]): PixelCoord[] {
+    const changed: PixelCoord[] = [];
+    this.generation = (this.generation + 1) >>> 0 || 1;
+    const generation = this.generation;
+
+    for (const pixel of pixels) {
+      if (!this.inBounds(pixel.x, pixel.y)) continue;
+      this.stamps[pixel.y * this.size + pixel.x] = generation;
+      if (this.setPixel(pixel.x, pixel.y, pixel.color, !!pixel.irysId)) {
+        changed.push({ x: pixel.x, y: pixel.y });
+      }
+    }
+
+    for (const index of Array.from(this.occupied)) {
+      if (this.stamps[index] === generation) continue;
+      const x = index % this.size;
+      const y = Math.floor(index / this.size);
+      if (this.clearPixel(x, y)) {
+        changed.push({ x, y });
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Current color of a texel as packed 0xRRGGBB, or null when empty
+   */
+  getRGB(x: number, y: number): number | null {
+    if (!this.inBounds(x, y)) return null;
+    const offset = (y * this.size + x) * 4;
+    const data = this.imageData.data;
+    if (data[offset + 3] === 0) return null;
+    return (data[offset] << 16) | (data[offset + 1] << 8) | data[offset + 2];
+  }
+
+  /**
+   * Current color of a texel as #rrggbb, or null when empty
+   */
+  getColor(x: number, y: number): string | null {
+    const rgb = this.getRGB(x, y);
+    return rgb === null ? null : formatHexColor(rgb);
+  }
+
+  hasIrysData(x: number, y: number): boolean {
+    if (!this.inBounds(x, y)) return false;
+    return this.irysFlags[y * this.size + x] === 1;
+  }
+
+  /**
+   * Copy of the raw RGBA texels and Irys flags, e.g. to seed a worker-side store
+   */
+  exportBuffers(): { rgba: ArrayBuffer; irys: ArrayBuffer } {
+    return {
+      rgba: this.imageData.data.slice().buffer,
+      irys: this.irysFlags.slice().buffer,
+    };
+  }
+
+  /**
+   * Replace the whole board with buffers produced by exportBuffers()
+   */
+  importBuffers(rgba: ArrayBuffer, irys: ArrayBuffer) {
+    const source = new Uint8ClampedArray(rgba);
+    if (source.length !== this.imageData.data.length) {
+      throw new Error('Backing store size mismatch');
+    }
+    this.imageData.data.set(source);
+    this.irysFlags.set(new Uint8Array(irys));
+    this.occupied.clear();
+    for (let index = 0; index < this.size * this.size; index++) {
+      if (source[index * 4 + 3] !== 0) this.occupied.add(index);
+    }
+    this.dirty = { minX: 0, minY: 0, maxX: this.size - 1, maxY: this.size - 1 };
+  }
+
+  get pixelCount(): number {
+    return this.occupied.size;
+  }
+
+  /**
+   * Upload texels written since the last flush to the blit surface
+   */
+  flush() {
+    if (!this.dirty) return;
+    const { minX, minY, maxX, maxY } = this.dirty;
+    this.surfaceCtx.putImageData(this.imageData, 0, 0, minX, minY, maxX - minX + 1, maxY - minY + 1);
+    this.dirty = null;
+  }
+
+  getSurface(): CanvasImageSource {
+    this.flush();
+    return this.surface;
+  }
+}
+
+/**
+ * Range of board pixels (end exclusive) that intersects the viewport,
+ * optionally restricted to a region
+ */
+export function getVisibleBounds(viewport: CanvasViewport, size: number, region?: PixelRegion) {
+  const { zoom, panX, panY, width, height } = viewport;
+  const bounds = {
+    startX: Math.max(0, Math.floor(-panX / zoom)),
+    startY: Math.max(0, Math.floor(-panY / zoom)),
+    endX: Math.min(size, Math.ceil((width - panX) / zoom)),
+    endY: Math.min(size, Math.ceil((height - panY) / zoom)),
+  };
+  if (region) {
+    bounds.startX = Math.max(bounds.startX, region.x);
+    bounds.startY = Math.max(bounds.startY, region.y);
+    bounds.endX = Math.min(bounds.endX, region.x + region.width);
+    bounds.endY = Math.min(bounds.endY, region.y + region.height);
+  }
+  return bounds;
+}
+
+/**
+ * Fill the background and blit the visible part of the backing store
+ */
+export function drawPixelLayer(
+  ctx: RenderContext,
+  store: PixelBackingStore,
+  viewport: CanvasViewport,
+  theme: RenderTheme,
+  region?: PixelRegion
+) {
+  const { startX, startY, endX, endY } = getVisibleBounds(viewport, store.size, region);
+  const { zoom, panX, panY } = viewport;
+
+  ctx.fillStyle = theme.background;
+  if (region) {
+    if (endX <= startX || endY <= startY) return;
+    ctx.fillRect(startX * zoom + panX, startY * zoom + panY, (endX - startX) * zoom, (endY - startY) * zoom);
+  } else {
+    ctx.fillRect(0, 0, viewport.width, viewport.height);
+    if (endX <= startX || endY <= startY) return;
+  }
+
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(
+    store.getSurface(),
+    startX, startY, endX - startX, endY - startY,
+    startX * zoom + panX, startY * zoom + panY, (endX - startX) * zoom, (endY - startY) * zoom
+  );
+}
+
+/**
+ * Grid lines over the visible board area
+ */
+export function drawGridOverlay(
+  ctx: RenderContext,
+  viewport: CanvasViewport,
+  size: number,
+  theme: RenderTheme,
+  region?: PixelRegion
+) {
+  const { zoom, panX, panY, width, height } = viewport;
+  if (zoom < GRID_MIN_ZOOM) return;
+  const { startX, startY, endX, endY } = getVisibleBounds(viewport, size, region);
+
+  ctx.save();
+  ctx.strokeStyle = theme.grid;
+  ctx.lineWidth = zoom >= 12 ? 0.8 : 0.4;
+  ctx.globalAlpha = zoom >= 12 ? 0.3 : 0.2;
+  ctx.beginPath();
+
+  const top = Math.max(0, startY * zoom + panY);
+  const bottom = Math.min(height, endY * zoom + panY);
+  for (let x = startX; x <= endX; x++) {
+    const xPos = x * zoom + panX;
+    if (xPos < 0 || xPos > width) continue;
+    ctx.moveTo(xPos, top);
+    ctx.lineTo(xPos, bottom);
+  }
+
+  const left = Math.max(0, startX * zoom + panX);
+  const right = Math.min(width, endX * zoom + panX);
+  for (let y = startY; y <= endY; y++) {
+    const yPos = y * zoom + panY;
+    if (yPos < 0 || yPos > height) continue;
+    ctx.moveTo(left, yPos);
+    ctx.lineTo(right, yPos);
+  }
+
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * Outline visible pixels whose data is stored on Irys
+ */
+export function drawIrysOverlay(
+  ctx: RenderContext,
+  store: PixelBackingStore,
+  viewport: CanvasViewport,
+  theme: RenderTheme,
+  region?: PixelRegion
+) {
+  const { zoom, panX, panY } = viewport;
+  if (zoom < IRYS_BORDER_MIN_ZOOM) return;
+  const { startX, startY, endX, endY } = getVisibleBounds(viewport, store.size, region);
+
+  ctx.save();
+  ctx.strokeStyle = theme.primary;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  for (let y = startY; y < endY; y++) {
+    for (let x = startX; x < endX; x++) {
+      if (!store.hasIrysData(x, y)) continue;
+      ctx.rect(x * zoom + panX + 0.5, y * zoom + panY + 0.5, zoom - 1, zoom - 1);
+    }
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * Selected color preview and border for the hovered pixel
+ */
+export function drawHoverOverlay(
+  ctx: RenderContext,
+  viewport: CanvasViewport,
+  hover: HoverState,
+  theme: RenderTheme
+) {
+  const { zoom, panX, panY, width, height } = viewport;
+  if (zoom < HOVER_MIN_ZOOM) return;
+
+  const xPos = hover.x * zoom + panX;
+  const yPos = hover.y * zoom + panY;
+  if (xPos < -zoom || xPos > width || yPos < -zoom || yPos > height) return;
+
+  ctx.save();
+  ctx.globalAlpha = 0.7;
+  ctx.fillStyle = hover.color;
+  ctx.fillRect(xPos, yPos, zoom, zoom);
+  ctx.globalAlpha = 1.0;
+
+  const borderWidth = Math.max(1, Math.min(3, zoom / 6));
+  ctx.strokeStyle = theme.primary;
+  ctx.lineWidth = borderWidth;
+  ctx.strokeRect(xPos + borderWidth / 2, yPos + borderWidth / 2, zoom - borderWidth, zoom - borderWidth);
+
+  if (zoom >= 8) {
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.lineWidth = 1;
+    const innerOffset = borderWidth + 1;
+    ctx.strokeRect(xPos + innerOffset, yPos + innerOffset, zoom - 2 * innerOffset, zoom - 2 * innerOffset);
+  }
+  ctx.restore();
+}
+
+/**
+ * Mark board pixels: outlined when zoomed in, solid dots (at least 2 screen
+ * pixels wide) when zoomed out so isolated pixels stay visible
+ */
+export function drawPixelHighlights(
+  ctx: RenderContext,
+  viewport: CanvasViewport,
+  pixels: readonly PixelCoord[],
+  color: string
+) {
+  const { zoom, panX, panY, width, height } = viewport;
+  const outline = zoom >= HOVER_MIN_ZOOM;
+  const marker = Math.max(2, zoom);
+
+  ctx.save();
+  ctx.beginPath();
+  for (const { x, y } of pixels) {
+    const xPos = x * zoom + panX;
+    const yPos = y * zoom + panY;
+    if (xPos < -marker || xPos > width || yPos < -marker || yPos > height) continue;
+    if (outline) ctx.rect(xPos + 1, yPos + 1, zoom - 2, zoom - 2);
+    else ctx.rect(xPos, yPos, marker, marker);
+  }
+  if (outline) {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = Math.max(1, Math.min(3, zoom / 6));
+    ctx.stroke();
+  } else {
+    ctx.fillStyle = color;
+    ctx.fill();
+  }
+  ctx.restore();
+}
+
+/**
+ * Full frame: pixel layer followed by the overlay passes
+ */
+export function renderCanvas(
+  ctx: RenderContext,
+  store: PixelBackingStore,
+  viewport: CanvasViewport,
+  theme: RenderTheme,
+  options: RenderOptions
+) {
+  ctx.save();
+  ctx.clearRect(0, 0, viewport.width, viewport.height);
+  drawPixelLayer(ctx, store, viewport, theme);
+  if (options.showIrysBorders) drawIrysOverlay(ctx, store, viewport, theme);
+  if (options.showGrid) drawGridOverlay(ctx, viewport, store.size, theme);
+  if (options.hover) drawHoverOverlay(ctx, viewport, options.hover, theme);
+  ctx.restore();
+}
+
+/**
+ * Repaint only the screen area covering a board region.
+ * Passes are clipped to the region so neighbouring pixels are left untouched.
+ */
+export function renderRegion(
+  ctx: RenderContext,
+  store: PixelBackingStore,
+  viewport: CanvasViewport,
+  theme: RenderTheme,
+  options: RenderOptions,
+  region: PixelRegion
+) {
+  const { startX, startY, endX, endY } = getVisibleBounds(viewport, store.size, region);
+  if (endX <= startX || endY <= startY) return;
+
+  const { zoom, panX, panY } = viewport;
+  // At fractional scales the clip edge cuts through neighbouring pixels,
+  // so redraw a one-pixel ring around the region underneath the clip
+  const aligned = Number.isInteger(zoom) && Number.isInteger(panX) && Number.isInteger(panY);
+  const pad = aligned ? 0 : 1;
+  const drawRegion = {
+    x: startX - pad,
+    y: startY - pad,
+    width: endX - startX + pad * 2,
+    height: endY - startY + pad * 2,
+  };
+  const left = Math.floor(startX * zoom + panX);
+  const top = Math.floor(startY * zoom + panY);
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(left, top, Math.ceil(endX * zoom + panX) - left, Math.ceil(endY * zoom + panY) - top);
+  ctx.clip();
+  drawPixelLayer(ctx, store, viewport, theme, drawRegion);
+  if (options.showIrysBorders) drawIrysOverlay(ctx, store, viewport, theme, drawRegion);
+  if (options.showGrid) drawGridOverlay(ctx, viewport, store.size, theme, drawRegion);
+  const hover = options.hover;
+  if (hover && hover.x >= drawRegion.x && hover.x < drawRegion.x + drawRegion.width &&
+      hover.y >= drawRegion.y && hover.y < drawRegion.y + drawRegion.height) {
+    drawHoverOverlay(ctx, viewport, hover, theme);
+  }
+  ctx.restore();
+}
+
+/**
+ * Flush dirty regions, or the full frame when regions is null.
+ * Below 1x a board pixel is smaller than a screen pixel and partial blits
+ * would sample differently from the full one, so those always repaint fully.
+ */
+export function renderDirtyRegions(
+  ctx: RenderContext,
+  store: PixelBackingStore,
+  viewport: CanvasViewport,
+  theme: RenderTheme,
+  options: RenderOptions,
+  regions: PixelRegion[] | null
+) {
+  if (!regions || viewport.zoom < 1) {
+    renderCanvas(ctx, store, viewport, theme, options);
+    return;
+  }
+  for (const region of regions) {
+    renderRegion(ctx, store, viewport, theme, options, region);
+  }
+}
+
+// Utility function to safely get CSS variables
+const getCSSVariable = (variableName: string, fallback: string): string => {
+  try {
+    const value = getComputedStyle(document.documentElement)
+      .getPropertyValue(variableName)
+      .trim();
+    return value || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * Resolve theme colors from CSS variables (main thread only).
+ * Call once per frame, never per pixel.
+ */
+export function readRenderTheme(): RenderTheme {
+  return {
+    background: `hsl(${getCSSVariable('--canvas-bg', '0 0% 99%')})`,
+    grid: `hsl(${getCSSVariable('--canvas-grid', '180 6% 90%')})`,
+    primary: `hsl(${getCSSVariable('--primary', '166 89% 75%')})`,
+  };
+}
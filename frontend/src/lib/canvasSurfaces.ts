@@ -0,0 +1,174 @@
+import {
+  PixelBackingStore,
+  renderDirtyRegions,
+  type CanvasViewport,
+  type PixelCoord,
+  type PixelRegion,
+  type RenderOptions,
+  type RenderTheme
+} from './canvasRenderer';
+import { DirtyRegionScheduler } from './dirtyRegionScheduler';
+
+export type CanvasRenderMode = 'main' | 'worker';
+
+export interface CanvasFrame {
+  viewport: CanvasViewport;
+  options: RenderOptions;
+}
+
+/**
+ * Where the board gets drawn. The main-thread store stays the source of truth;
+ * a surface is told when texels changed and what the current frame looks like.
+ */
+export interface CanvasRenderSurface {
+  readonly mode: CanvasRenderMode;
+  resize(width: number, height: number): void;
+  render(frame: CanvasFrame, theme: RenderTheme): void;
+  invalidatePixels(coords: PixelCoord[]): void;
+  invalidateAll(): void;
+  dispose(): void;
+}
+
+// Messages posted to the render worker
+export type CanvasWorkerMessage =
+  | { type: 'init'; canvas: OffscreenCanvas; size: number }
+  | { type: 'resize'; width: number; height: number }
+  | { type: 'load'; rgba: ArrayBuffer; irys: ArrayBuffer }
+  // Four ints per pixel: x, y, 0xRRGGBB (-1 when cleared), irys flag
+  | { type: 'delta'; entries: Int32Array }
+  | { type: 'frame'; frame: CanvasFrame; theme: RenderTheme };
+
+/**
+ * Draws on the visible canvas from the main thread, coalescing texel
+ * changes into dirty regions once per animation frame.
+ */
+class MainThreadSurface implements CanvasRenderSurface {
+  readonly mode = 'main' as const;
+  private frame: CanvasFrame | null = null;
+  private theme: RenderTheme | null = null;
+  private readonly scheduler: DirtyRegionScheduler;
+
+  constructor(
+    private readonly canvas: HTMLCanvasElement,
+    private readonly store: PixelBackingStore
+  ) {
+    this.scheduler = new DirtyRegionScheduler(regions => this.flush(regions));
+  }
+
+  private flush(regions: PixelRegion[] | null) {
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx || !this.frame || !this.theme) return;
+    renderDirtyRegions(ctx, this.store, this.frame.viewport, this.theme, this.frame.options, regions);
+  }
+
+  resize(width: number, height: number) {
+    this.canvas.width = width;
+    this.canvas.height = height;
+  }
+
+  render(frame: CanvasFrame, theme: RenderTheme) {
+    this.frame = frame;
+    this.theme = theme;
+    // A full frame covers anything still queued
+    this.scheduler.reset();
+    this.flush(null);
+  }
+
+  invalidatePixels(coords: PixelCoord[]) {
+    this.scheduler.invalidatePixels(coords);
+  }
+
+  invalidateAll() {
+    this.scheduler.invalidateAll();
+  }
+
+  dispose() {
+    this.scheduler.dispose();
+  }
+}
+
+/**
+ * Hands the canvas to a worker via transferControlToOffscreen.
+ * The worker keeps its own copy of the board, fed with texel deltas.
+ */
+class WorkerSurface implements CanvasRenderSurface {
+  readonly mode = 'worker' as const;
+
+  constructor(
+    private readonly worker: Worker,
+    private readonly store: PixelBackingStore
+  ) {}
+
+  private post(message: CanvasWorkerMessage, transfer: Transferable[] = []) {
+    this.worker.postMessage(message, transfer);
+  }
+
+  resize(width: number, height: number) {
+    this.post({ type: 'resize', width, height });
+  }
+
+  render(frame: CanvasFrame, theme: RenderTheme) {
+    this.post({ type: 'frame', frame, theme });
+  }
+
+  invalidatePixels(coords: PixelCoord[]) {
+    if (!coords.length) return;
+    const entries = new Int32Array(coords.length * 4);
+    coords.forEach(({ x, y }, i) => {
+      const rgb = this.store.getRGB(x, y);
+      entries[i * 4] = x;
+      entries[i * 4 + 1] = y;
+      entries[i * 4 + 2] = rgb === null ? -1 : rgb;
+      entries[i * 4 + 3] = this.store.hasIrysData(x, y) ? 1 : 0;
+    });
+    this.post({ type: 'delta', entries }, [entries.buffer]);
+  }
+
+  invalidateAll() {
+    const { rgba, irys } = this.store.exportBuffers();
+    this.post({ type: 'load', rgba, irys }, [rgba, irys]);
+  }
+
+  dispose() {
+    this.worker.terminate();
+  }
+}
+
+// A canvas can only be transferred once; remember which ones are gone
+const transferredCanvases = new WeakSet<HTMLCanvasElement>();
+
+export function isOffscreenRenderingSupported(): boolean {
+  return typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof HTMLCanvasElement !== 'undefined' &&
+    'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+}
+
+/**
+ * Create a render surface for the canvas element.
+ * Worker mode falls back to the main thread when OffscreenCanvas is unavailable.
+ * Returns null when the element was already handed to a worker and must be remounted.
+ */
+export function createRenderSurface(
+  canvas: HTMLCanvasElement,
+  store: PixelBackingStore,
+  mode: CanvasRenderMode
+): CanvasRenderSurface | null {
+  if (transferredCanvases.has(canvas)) return null;
+
+  if (mode === 'worker' && isOffscreenRenderingSupported()) {
+    try {
+      const worker = new Worker(new URL('../workers/canvasRenderWorker.ts', import.meta.url), { type: 'module' });
+      const offscreen = canvas.transferControlToOffscreen();
+      transferredCanvases.add(canvas);
+      const message: CanvasWorkerMessage = { type: 'init', canvas: offscreen, size: store.size };
+      worker.postMessage(message, [offscreen]);
+      return new WorkerSurface(worker, store);
+    } catch (error) {
+      console.warn('Offscreen canvas rendering unavailable, using main thread:', error);
+      if (transferredCanvases.has(canvas)) return null;
+    }
+  }
+
+  return new MainThreadSurface(canvas, store);
+}
@@ -0,0 +1,202 @@
+import {
+  drawPixelHighlights,
+  getVisibleBounds,
+  parseHexColor,
+  type CanvasViewport,
+  type PixelCoord,
+  type RenderContext
+} from './canvasRenderer';
+
+/** Reference image pinned over the board at a pixel offset */
+export interface CanvasTemplate {
+  id: string;
+  name: string;
+  // data: URL for uploads, remote URL otherwise
+  src: string;
+  x: number;
+  y: number;
+  opacity: number;
+  visible: boolean;
+}
+
+/** Decoded template, one image pixel per board pixel */
+export interface TemplateImage {
+  width: number;
+  height: number;
+  canvas: HTMLCanvasElement;
+  rgba: Uint8ClampedArray;
+}
+
+export interface TemplateProgress {
+  // Opaque template pixels that fall on the board
+  total: number;
+  matching: number;
+  // 1 where the board differs from the template, indexed like the image
+  mismatchMask: Uint8Array;
+}
+
+const TEMPLATES_KEY = 'pixel-canvas-templates-v1';
+// Template pixels below this alpha are "don't care"
+const MIN_TEMPLATE_ALPHA = 128;
+const UNPLACED = -1;
+
+export function createTemplateId(): string {
+  return `tpl_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+}
+
+export function loadTemplates(): CanvasTemplate[] {
+  try {
+    const raw = localStorage.getItem(TEMPLATES_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter((t): t is CanvasTemplate =>
+      !!t &&
+      typeof t.id === 'string' &&
+      typeof t.src === 'string' &&
+      typeof t.x === 'number' &&
+      typeof t.y === 'number' &&
+      typeof t.opacity === 'number'
+    ).map(t => ({ ...t, name: String(t.name ?? 'Template'), visible: t.visible !== false }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Persist templates in z-order (last is drawn on top).
+ * Returns false when storage is full or unavailable.
+ */
+export function saveTemplates(templates: CanvasTemplate[]): boolean {
+  try {
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function readImageFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read image file'));
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Load an image and read its pixels. Remote images must be served with CORS
+ * headers, otherwise the pixels can't be compared against the board.
+ */
+export function decodeTemplateImage(src: string): Promise<TemplateImage> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      const width = img.naturalWidth;
+      const height = img.naturalHeight;
+      if (!width || !height) {
+        reject(new Error('Image is empty'));
+        return;
+      }
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas 2D context unavailable'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0);
+      try {
+        const rgba = ctx.getImageData(0, 0, width, height).data;
+        resolve({ width, height, canvas, rgba });
+      } catch {
+        reject(new Error('The image host does not allow cross-origin access; upload the file instead'));
+      }
+    };
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = src;
+  });
+}
+
+/**
+ * Packed 0xRRGGBB per board pixel (-1 = never placed), built once per pixel list
+ * so every template compares against it in a single pass
+ */
+export function buildBoardColorIndex(pixels: readonly { x: number; y: number; color: string }[], size: number): Int32Array {
+  const index = new Int32Array(size * size).fill(UNPLACED);
+  for (const pixel of pixels) {
+    if (pixel.x < 0 || pixel.y < 0 || pixel.x >= size || pixel.y >= size) continue;
+    const rgb = parseHexColor(pixel.color);
+    if (rgb !== null) index[pixel.y * size + pixel.x] = rgb;
+  }
+  return index;
+}
+
+export function compareTemplate(
+  template: CanvasTemplate,
+  image: TemplateImage,
+  board: Int32Array,
+  size: number
+): TemplateProgress {
+  const mismatchMask = new Uint8Array(image.width * image.height);
+  let total = 0;
+  let matching = 0;
+  for (let iy = 0; iy < image.height; iy++) {
+    const by = template.y + iy;
+    if (by < 0 || by >= size) continue;
+    for (let ix = 0; ix < image.width; ix++) {
+      const bx = template.x + ix;
+      if (bx < 0 || bx >= size) continue;
+      const i = iy * image.width + ix;
+      if (image.rgba[i * 4 + 3] < MIN_TEMPLATE_ALPHA) continue;
+      total++;
+      const expected = (image.rgba[i * 4] << 16) | (image.rgba[i * 4 + 1] << 8) | image.rgba[i * 4 + 2];
+      if (board[by * size + bx] === expected) matching++;
+      else mismatchMask[i] = 1;
+    }
+  }
+  return { total, matching, mismatchMask };
+}
+
+/**
+ * Template image scaled onto the viewport with hard pixel edges
+ */
+export function drawTemplate(ctx: RenderContext, viewport: CanvasViewport, template: CanvasTemplate, image: TemplateImage) {
+  const { zoom, panX, panY } = viewport;
+  ctx.save();
+  ctx.globalAlpha = template.opacity;
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(image.canvas, template.x * zoom + panX, template.y * zoom + panY, image.width * zoom, image.height * zoom);
+  ctx.restore();
+}
+
+/**
+ * Highlight the visible pixels that differ from the template
+ */
+export function drawTemplateMismatches(
+  ctx: RenderContext,
+  viewport: CanvasViewport,
+  template: CanvasTemplate,
+  image: TemplateImage,
+  progress: TemplateProgress,
+  boardSize: number,
+  color: string
+) {
+  const bounds = getVisibleBounds(viewport, boardSize, {
+    x: template.x,
+    y: template.y,
+    width: image.width,
+    height: image.height,
+  });
+  const coords: PixelCoord[] = [];
+  for (let by = bounds.startY; by < bounds.endY; by++) {
+    const row = (by - template.y) * image.width - template.x;
+    for (let bx = bounds.startX; bx < bounds.endX; bx++) {
+      if (progress.mismatchMask[row + bx]) coords.push({ x: bx, y: by });
+    }
+  }
+  if (coords.length) drawPixelHighlights(ctx, viewport, coords, color);
+}
@@ -0,0 +1,179 @@
+// Viewport math for the pixel canvas: zoom is screen pixels per board pixel
+// (fractional allowed), pan is the screen offset of board origin (0, 0).
+
+export interface ViewportState {
+  zoom: number;
+  pan: { x: number; y: number };
+}
+
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+export const DEFAULT_ZOOM = 8;
+// Lower bound when the whole board already fits at a larger scale
+export const MIN_ZOOM = 2;
+export const MAX_ZOOM = 40;
+
+/**
+ * Largest zoom at which the whole board fits inside the viewport
+ */
+export function getFitZoom(boardSize: number, width: number, height: number): number {
+  if (!width || !height) return MIN_ZOOM;
+  return Math.min(width, height) / boardSize;
+}
+
+/**
+ * Smallest allowed zoom: zoom-to-fit, which goes below 1 on small screens
+ */
+export function getMinZoom(boardSize: number, width: number, height: number): number {
+  return Math.min(MIN_ZOOM, getFitZoom(boardSize, width, height));
+}
+
+export function clampZoom(zoom: number, boardSize: number, width: number, height: number): number {
+  return Math.max(getMinZoom(boardSize, width, height), Math.min(MAX_ZOOM, zoom));
+}
+
+/**
+ * Keep the board on screen: centered along an axis where it is smaller than
+ * the viewport, otherwise never scrolled past its edges
+ */
+export function clampPan(
+  pan: { x: number; y: number },
+  zoom: number,
+  boardSize: number,
+  width: number,
+  height: number
+): { x: number; y: number } {
+  const clampAxis = (value: number, extent: number) => {
+    const scaled = boardSize * zoom;
+    if (scaled <= extent) return (extent - scaled) / 2;
+    return Math.max(extent - scaled, Math.min(0, value));
+  };
+  return { x: clampAxis(pan.x, width), y: clampAxis(pan.y, height) };
+}
+
+/**
+ * Change zoom while keeping the board point under `anchor` fixed on screen
+ */
+export function zoomAtPoint(
+  state: ViewportState,
+  nextZoom: number,
+  anchor: ScreenPoint,
+  boardSize: number,
+  width: number,
+  height: number
+): ViewportState {
+  const zoom = clampZoom(nextZoom, boardSize, width, height);
+  const boardX = (anchor.x - state.pan.x) / state.zoom;
+  const boardY = (anchor.y - state.pan.y) / state.zoom;
+  const pan = clampPan(
+    { x: anchor.x - boardX * zoom, y: anchor.y - boardY * zoom },
+    zoom,
+    boardSize,
+    width,
+    height
+  );
+  return { zoom, pan };
+}
+
+/**
+ * View centered on a board coordinate at the given zoom
+ */
+export function centerOn(
+  boardX: number,
+  boardY: number,
+  zoom: number,
+  boardSize: number,
+  width: number,
+  height: number
+): ViewportState {
+  const nextZoom = clampZoom(zoom, boardSize, width, height);
+  const pan = clampPan(
+    { x: width / 2 - boardX * nextZoom, y: height / 2 - boardY * nextZoom },
+    nextZoom,
+    boardSize,
+    width,
+    height
+  );
+  return { zoom: nextZoom, pan };
+}
+
+/**
+ * Board coordinate at the center of the viewport
+ */
+export function getViewCenter(state: ViewportState, width: number, height: number) {
+  return {
+    x: (width / 2 - state.pan.x) / state.zoom,
+    y: (height / 2 - state.pan.y) / state.zoom,
+  };
+}
+
+/**
+ * Board pixel under a screen point (canvas pixels), or null outside the board
+ */
+export function screenToBoard(
+  point: ScreenPoint,
+  state: ViewportState,
+  boardSize: number
+): { x: number; y: number } | null {
+  const x = Math.floor((point.x - state.pan.x) / state.zoom);
+  const y = Math.floor((point.y - state.pan.y) / state.zoom);
+  if (x < 0 || y < 0 || x >= boardSize || y >= boardSize) return null;
+  return { x, y };
+}
+
+/**
+ * Multiplicative zoom factor for a wheel event.
+ * Trackpad pinches arrive as ctrl+wheel with small deltas and get a higher gain.
+ */
+export function getWheelZoomFactor(deltaY: number, deltaMode: number, ctrlKey: boolean): number {
+  // deltaMode: 0 = pixels, 1 = lines, 2 = pages
+  const pixels = deltaMode === 1 ? deltaY * 16 : deltaMode === 2 ? deltaY * 400 : deltaY;
+  const gain = ctrlKey ? 0.01 : 0.0015;
+  const clamped = Math.max(-300, Math.min(300, pixels));
+  return Math.exp(-clamped * gain);
+}
+
+/**
+ * Human-readable zoom level for the toolbar
+ */
+export function formatZoom(zoom: number): string {
+  if (zoom < 1) return `${zoom.toFixed(2)}x`;
+  if (zoom < 10) return `${zoom.toFixed(1).replace(/\.0$/, '')}x`;
+  return `${Math.round(zoom)}x`;
+}
+
+// Deep links: ?x=&y=&z= is the board pixel at the center of the view and the zoom
+export interface ViewportLink {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+/**
+ * Read a viewport link from a query string; null when absent or malformed
+ */
+export function parseViewportLink(search: string, boardSize: number): ViewportLink | null {
+  const params = new URLSearchParams(search);
+  if (!params.has('x') || !params.has('y')) return null;
+  const x = Number(params.get('x'));
+  const y = Number(params.get('y'));
+  if (!Number.isInteger(x) || !Number.isInteger(y)) return null;
+  if (x < 0 || y < 0 || x >= boardSize || y >= boardSize) return null;
+  const z = params.has('z') ? Number(params.get('z')) : DEFAULT_ZOOM;
+  const zoom = Number.isFinite(z) && z > 0 ? Math.min(MAX_ZOOM, z) : DEFAULT_ZOOM;
+  return { x, y, zoom };
+}
+
+/**
+ * URL for a viewport link, keeping unrelated query params and the hash
+ */
+export function buildViewportUrl(link: ViewportLink, base: string = window.location.href): string {
+  const url = new URL(base);
+  url.searchParams.set('x', String(link.x));
+  url.searchParams.set('y', String(link.y));
+  url.searchParams.set('z', String(Math.round(link.zoom * 100) / 100));
+  return url.toString();
+}
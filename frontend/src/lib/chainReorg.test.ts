@@ -0,0 +1,159 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PixelChangeJournal, RecentBlockHashes } from './chainReorg';
+import type { BlockHeader } from './contract';
+
+interface TestPixel {
+  x: number;
+  y: number;
+  color: string;
+}
+
+const header = (number: number, hash: string, parentHash = `parent-of-${hash}`): BlockHeader => ({ number, hash, parentHash });
+
+// Records blocks from..to with hashes `${prefix}${n}`, each chained onto the previous one
+function recordChain(hashes: RecentBlockHashes, from: number, to: number, prefix = 'a') {
+  for (let n = from; n <= to; n++) hashes.record(header(n, `${prefix}${n}`, `${prefix}${n - 1}`));
+}
+
+const pixel = (x: number, y: number, color: string): TestPixel => ({ x, y, color });
+
+describe('RecentBlockHashes', () => {
+  it('keeps only the newest `depth` blocks', () => {
+    const hashes = new RecentBlockHashes(3);
+    recordChain(hashes, 1, 5);
+    expect(hashes.get(2)).toBeUndefined();
+    expect(hashes.get(3)).toBe('a3');
+    expect(hashes.get(5)).toBe('a5');
+  });
+
+  it('detects a header whose parent hash differs from the recorded block', () => {
+    const hashes = new RecentBlockHashes(8);
+    recordChain(hashes, 1, 3);
+    expect(hashes.extends(header(4, 'a4', 'a3'))).toBe(true);
+    expect(hashes.extends(header(4, 'b4', 'b3'))).toBe(false);
+    // Nothing recorded for the parent: nothing to contradict
+    expect(hashes.extends(header(10, 'a10', 'a9'))).toBe(true);
+  });
+
+  it('forgets blocks after the fork point on truncateAfter', () => {
+    const hashes = new RecentBlockHashes(8);
+    recordChain(hashes, 1, 5);
+    hashes.truncateAfter(3);
+    expect(hashes.get(3)).toBe('a3');
+    expect(hashes.get(4)).toBeUndefined();
+    expect(hashes.get(5)).toBeUndefined();
+    // The replacement branch chains onto the fork point
+    expect(hashes.extends(header(4, 'b4', 'a3'))).toBe(true);
+  });
+
+  describe('findForkPoint', () => {
+    it('returns the newest recorded block still on the canonical chain, checking newest first', async () => {
+      const hashes = new RecentBlockHashes(8);
+      recordChain(hashes, 1, 6);
+      const canonical = new Map([1, 2, 3, 4, 5, 6].map(n => [n, n <= 3 ? `a${n}` : `b${n}`]));
+      const fetchHeader = vi.fn(async (n: number) => header(n, canonical.get(n)!));
+
+      await expect(hashes.findForkPoint(fetchHeader)).resolves.toBe(3);
+      expect(fetchHeader.mock.calls.map(([n]) => n)).toEqual([6, 5, 4, 3]);
+    });
+
+    it('returns the tip itself when nothing was reorganized', async () => {
+      const hashes = new RecentBlockHashes(8);
+      recordChain(hashes, 1, 4);
+      const fetchHeader = vi.fn(async (n: number) => header(n, `a${n}`));
+
+      await expect(hashes.findForkPoint(fetchHeader)).resolves.toBe(4);
+      expect(fetchHeader).toHaveBeenCalledTimes(1);
+    });
+
+    it('returns null when the reorg reaches below every recorded block', async () => {
+      const hashes = new RecentBlockHashes(3);
+      recordChain(hashes, 1, 5);
+
+      await expect(hashes.findForkPoint(async (n) => header(n, `b${n}`))).resolves.toBeNull();
+    });
+
+    it('returns null when nothing is recorded', async () => {
+      const fetchHeader = vi.fn(async (n: number) => header(n, `a${n}`));
+
+      await expect(new RecentBlockHashes(8).findForkPoint(fetchHeader)).resolves.toBeNull();
+      expect(fetchHeader).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('PixelChangeJournal', () => {
+  const build = () => {
+    const journal = new PixelChangeJournal<TestPixel>();
+    const board = new Map<string, TestPixel>([['0_0', pixel(0, 0, '#000000')]]);
+    journal.apply(board, 10, pixel(0, 0, '#ff0000'));
+    journal.apply(board, 11, pixel(1, 1, '#00ff00'));
+    journal.apply(board, 12, pixel(0, 0, '#0000ff'));
+    journal.apply(board, 12, pixel(2, 2, '#ffffff'));
+    return { journal, board };
+  };
+
+  it('applies pixels to the board', () => {
+    const { board } = build();
+    expect(board.get('0_0')?.color).toBe('#0000ff');
+    expect(board.get('1_1')?.color).toBe('#00ff00');
+    expect(board.get('2_2')?.color).toBe('#ffffff');
+  });
+
+  it('rolls back blocks after the fork point, restoring replaced pixels and removing new ones', () => {
+    const { journal, board } = build();
+    const touched = journal.rollback(board, 10);
+
+    // Newest change first
+    expect(touched).toEqual([{ x: 2, y: 2 }, { x: 0, y: 0 }, { x: 1, y: 1 }]);
+    expect(board.get('0_0')?.color).toBe('#ff0000');
+    expect(board.has('1_1')).toBe(false);
+    expect(board.has('2_2')).toBe(false);
+  });
+
+  it('rolls back to the state before the first journaled block', () => {
+    const { journal, board } = build();
+    journal.rollback(board, 0);
+    expect([...board.values()]).toEqual([pixel(0, 0, '#000000')]);
+  });
+
+  it('keeps rolled back entries out of later rollbacks', () => {
+    const { journal, board } = build();
+    journal.rollback(board, 11);
+    journal.apply(board, 12, pixel(3, 3, '#123456'));
+
+    expect(journal.rollback(board, 11)).toEqual([{ x: 3, y: 3 }]);
+    expect(board.get('0_0')?.color).toBe('#ff0000');
+    expect(board.get('1_1')?.color).toBe('#00ff00');
+  });
+
+  it('does nothing when no block is after the fork point', () => {
+    const { journal, board } = build();
+    const before = new Map(board);
+    expect(journal.rollback(board, 12)).toEqual([]);
+    expect(board).toEqual(before);
+  });
+
+  it('reports values as of a block for pixels changed after it', () => {
+    const { journal } = build();
+    const values = journal.valuesAt(10);
+    expect(values.get('0_0')?.color).toBe('#ff0000');
+    expect(values.has('1_1')).toBe(true);
+    expect(values.get('1_1')).toBeUndefined();
+    expect(values.get('2_2')).toBeUndefined();
+  });
+
+  it('lists coordinates changed within a block range once each', () => {
+    const { journal } = build();
+    expect(journal.changedBetween(10, 12)).toEqual([{ x: 1, y: 1 }, { x: 0, y: 0 }, { x: 2, y: 2 }]);
+    expect(journal.changedBetween(9, 10)).toEqual([{ x: 0, y: 0 }]);
+  });
+
+  it('can no longer roll back pruned blocks', () => {
+    const { journal, board } = build();
+    journal.prune(11);
+    expect(journal.rollback(board, 0)).toEqual([{ x: 2, y: 2 }, { x: 0, y: 0 }]);
+    expect(board.get('0_0')?.color).toBe('#ff0000');
+    expect(board.get('1_1')?.color).toBe('#00ff00');
+  });
+});
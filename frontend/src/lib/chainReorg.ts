@@ -0,0 +1,130 @@
+import type { BlockHeader } from './contract';
+import type { PixelCoord } from './canvasRenderer';
+
+const coordKey = (x: number, y: number) => `${x}_${y}`;
+
+/**
+ * Hashes of the most recently synced blocks. A new block whose parent hash
+ * differs from the recorded hash of the block before it means the chain the
+ * sync was following has been reorganized.
+ */
+export class RecentBlockHashes {
+  private hashes = new Map<number, string>();
+
+  constructor(private readonly depth: number) {}
+
+  get(blockNumber: number): string | undefined {
+    return this.hashes.get(blockNumber);
+  }
+
+  record(header: BlockHeader) {
+    this.hashes.set(header.number, header.hash);
+    for (const blockNumber of this.hashes.keys()) {
+      if (blockNumber <= header.number - this.depth) this.hashes.delete(blockNumber);
+    }
+  }
+
+  /** False when the header's parent is recorded with a different hash */
+  extends(header: BlockHeader): boolean {
+    const parent = this.hashes.get(header.number - 1);
+    return parent == null || parent === header.parentHash;
+  }
+
+  /** Forget blocks after `blockNumber`, once they are known to be orphaned */
+  truncateAfter(blockNumber: number) {
+    for (const recorded of this.hashes.keys()) {
+      if (recorded > blockNumber) this.hashes.delete(recorded);
+    }
+  }
+
+  clear() {
+    this.hashes.clear();
+  }
+
+  /**
+   * Newest recorded block that is still on the canonical chain, or null when
+   * the reorg reaches below everything recorded
+   */
+  async findForkPoint(fetchHeader: (blockNumber: number) => Promise<BlockHeader>): Promise<number | null> {
+    const recorded = [...this.hashes.entries()].sort((a, b) => b[0] - a[0]);
+    for (const [blockNumber, hash] of recorded) {
+      const canonical = await fetchHeader(blockNumber);
+      if (canonical.hash === hash) return blockNumber;
+    }
+    return null;
+  }
+}
+
+interface JournalEntry<P> {
+  blockNumber: number;
+  x: number;
+  y: number;
+  before: P | undefined;
+}
+
+/**
+ * The value each pixel had before a synced block changed it, in the order
+ * changes were applied. Lets the sync undo blocks that were reorganized away
+ * and reconstruct the board as of an earlier, confirmed block.
+ */
+export class PixelChangeJournal<P extends PixelCoord> {
+  private entries: JournalEntry<P>[] = [];
+
+  /** Set `pixel` on `pixels`, remembering what it replaced */
+  apply(pixels: Map<string, P>, blockNumber: number, pixel: P) {
+    const key = coordKey(pixel.x, pixel.y);
+    this.entries.push({ blockNumber, x: pixel.x, y: pixel.y, before: pixels.get(key) });
+    pixels.set(key, pixel);
+  }
+
+  /** Undo every change from blocks after `blockNumber`, newest first; returns the coordinates touched */
+  rollback(pixels: Map<string, P>, blockNumber: number): PixelCoord[] {
+    const touched: PixelCoord[] = [];
+    while (this.entries.length && this.entries[this.entries.length - 1].blockNumber > blockNumber) {
+      const { x, y, before } = this.entries.pop();
+      const key = coordKey(x, y);
+      if (before) pixels.set(key, before);
+      else pixels.delete(key);
+      touched.push({ x, y });
+    }
+    return touched;
+  }
+
+  /**
+   * Values as of the end of `blockNumber` for pixels changed after it
+   * (undefined: not placed yet)
+   */
+  valuesAt(blockNumber: number): Map<string, P | undefined> {
+    const values = new Map<string, P | undefined>();
+    for (const entry of this.entries) {
+      if (entry.blockNumber <= blockNumber) continue;
+      const key = coordKey(entry.x, entry.y);
+      if (!values.has(key)) values.set(key, entry.before);
+    }
+    return values;
+  }
+
+  /** Coordinates changed in blocks after `fromBlock` up to and including `toBlock` */
+  changedBetween(fromBlock: number, toBlock: number): PixelCoord[] {
+    const seen = new Set<string>();
+    const coords: PixelCoord[] = [];
+    for (const { blockNumber, x, y } of this.entries) {
+      if (blockNumber <= fromBlock || blockNumber > toBlock) continue;
+      const key = coordKey(x, y);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      coords.push({ x, y });
+    }
+    return coords;
+  }
+
+  /** Drop entries for blocks up to and including `blockNumber` */
+  prune(blockNumber: number) {
+    const firstKept = this.entries.findIndex(entry => entry.blockNumber > blockNumber);
+    this.entries = firstKept === -1 ? [] : this.entries.slice(firstKept);
+  }
+
+  clear() {
+    this.entries = [];
+  }
+}
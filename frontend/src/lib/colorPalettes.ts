@@ -0,0 +1,78 @@
+// Preset colors shared by the color pickers and the image converter
+
+/** Full preset grid of ColorPalette: grays plus full and dark hues */
+export const PALETTE_PRESET_COLORS = [
+  '#ffffff', '#e5e5e5', '#c0c0c0', '#808080', '#404040', '#000000',
+  '#ff0000', '#ff8000', '#ffff00', '#80ff00', '#00ff00', '#00ff80',
+  '#00ffff', '#0080ff', '#0000ff', '#8000ff', '#ff00ff', '#ff0080',
+  '#800000', '#804000', '#808000', '#408000', '#008000', '#008040',
+  '#008080', '#004080', '#000080', '#400080', '#800080', '#800040'
+];
+
+/** Tint ramps of ColorPalette's "groups" tab */
+export const PALETTE_RGB_GROUPS: Record<string, string[]> = {
+  'Reds': ['#ff0000', '#ff3333', '#ff6666', '#ff9999', '#ffcccc'],
+  'Blues': ['#0000ff', '#3333ff', '#6666ff', '#9999ff', '#ccccff'],
+  'Greens': ['#00ff00', '#33ff33', '#66ff66', '#99ff99', '#ccffcc'],
+  'Purples': ['#800080', '#9933cc', '#b366ff', '#cc99ff', '#e5ccff'],
+  'Oranges': ['#ff8000', '#ff9933', '#ffb366', '#ffcc99', '#ffe5cc'],
+  'Cyans': ['#00ffff', '#33ffff', '#66ffff', '#99ffff', '#ccffff']
+};
+
+/** Basic presets of EnhancedColorPicker */
+export const BASIC_PRESET_COLORS = [
+  '#ffffff', '#000000', '#ff0000', '#00ff00', '#0000ff', '#ffff00',
+  '#ff00ff', '#00ffff', '#ff8000', '#8000ff', '#80ff00', '#ff0080'
+];
+
+// Colors the user saved in EnhancedColorPicker
+export const CUSTOM_PRESETS_KEY = 'customPresets';
+
+export function loadCustomPresets(): string[] {
+  try {
+    const raw = localStorage.getItem(CUSTOM_PRESETS_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter((c): c is string => typeof c === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+// Recently used colors, shared by the color pickers and the canvas eyedropper
+const COLOR_HISTORY_KEY = 'pixel-color-history-v1';
+const COLOR_HISTORY_LIMIT = 10;
+
+let colorHistory: string[] | null = null;
+const colorHistoryListeners = new Set<() => void>();
+
+export function getColorHistory(): string[] {
+  if (colorHistory) return colorHistory;
+  try {
+    const raw = localStorage.getItem(COLOR_HISTORY_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    colorHistory = Array.isArray(parsed) ? parsed.filter((c): c is string => typeof c === 'string') : [];
+  } catch {
+    colorHistory = [];
+  }
+  return colorHistory;
+}
+
+/** Put a color at the front of the history (keeping the last 10) and notify subscribers */
+export function addToColorHistory(color: string) {
+  const current = getColorHistory();
+  if (current[0] === color) return;
+  colorHistory = [color, ...current.filter(c => c !== color)].slice(0, COLOR_HISTORY_LIMIT);
+  try {
+    localStorage.setItem(COLOR_HISTORY_KEY, JSON.stringify(colorHistory));
+  } catch {
+    // ignore
+  }
+  colorHistoryListeners.forEach(listener => listener());
+}
+
+export function subscribeColorHistory(listener: () => void) {
+  colorHistoryListeners.add(listener);
+  return () => {
+    colorHistoryListeners.delete(listener);
+  };
+}
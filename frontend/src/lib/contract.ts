@@ -9,7 +9,7 @@ import {
   readContract,
   getPublicClient
 } from 'wagmi/actions'
-import { parseEther, createPublicClient, http } from 'viem'
+import { parseEther, createPublicClient, http, hexToBytes } from 'viem'
 
 export const ABI = [
   { "inputs": [], "name": "getCanvasInfo", "outputs": [ { "internalType": "uint256", "name": "width", "type": "uint256" }, { "internalType": "uint256", "name": "height", "type": "uint256" }, { "internalType": "uint256", "name": "totalPixelsPlaced", "type": "uint256" }, { "internalType": "uint256", "name": "pixelPriceWei", "type": "uint256" }, { "internalType": "uint256", "name": "maxSize", "type": "uint256" } ], "stateMutability": "view", "type": "function" },
@@ -17,6 +17,7 @@ export const ABI = [
   { "inputs": [ { "internalType": "uint256", "name": "x", "type": "uint256" }, { "internalType": "uint256", "name": "y", "type": "uint256" }, { "internalType": "bytes3", "name": "color", "type": "bytes3" }, { "internalType": "string", "name": "irysTxId", "type": "string" } ], "name": "placePixel", "outputs": [], "stateMutability": "payable", "type": "function" },
   { "inputs": [ { "internalType": "uint256", "name": "x", "type": "uint256" }, { "internalType": "uint256", "name": "y", "type": "uint256" }, { "internalType": "string", "name": "irysTxId", "type": "string" } ], "name": "placePixelWithProgrammableData", "outputs": [], "stateMutability": "payable", "type": "function" },
   { "inputs": [ { "internalType": "uint256", "name": "x", "type": "uint256" }, { "internalType": "uint256", "name": "y", "type": "uint256" } ], "name": "getPixel", "outputs": [ { "internalType": "bytes3", "name": "color", "type": "bytes3" }, { "internalType": "address", "name": "placedBy", "type": "address" }, { "internalType": "uint256", "name": "timestamp", "type": "uint256" }, { "internalType": "string", "name": "irysTxId", "type": "string" }, { "internalType": "bool", "name": "isProgrammableData", "type": "bool" } ], "stateMutability": "view", "type": "function" },
+  { "inputs": [ { "internalType": "uint256", "name": "startX", "type": "uint256" }, { "internalType": "uint256", "name": "startY", "type": "uint256" }, { "internalType": "uint256", "name": "rows", "type": "uint256" }, { "internalType": "uint256", "name": "cols", "type": "uint256" } ], "name": "getPixelsPacked", "outputs": [ { "internalType": "bytes", "name": "", "type": "bytes" } ], "stateMutability": "view", "type": "function" },
   // Programmable Data functions
   { "inputs": [ { "internalType": "string", "name": "irysTxId", "type": "string" } ], "name": "getStoredPDData", "outputs": [ { "internalType": "bytes", "name": "", "type": "bytes" } ], "stateMutability": "view", "type": "function" },
   { "inputs": [ { "internalType": "string", "name": "irysTxId", "type": "string" } ], "name": "isProcessedIrysData", "outputs": [ { "internalType": "bool", "name": "", "type": "bool" } ], "stateMutability": "view", "type": "function" },
@@ -55,6 +56,15 @@ export type PixelPlacedEvent = {
   user: string;
   timestamp: bigint;
   blockNumber: number;
+  blockHash?: string;
+  logIndex?: number;
+  transactionHash?: string;
+}
+
+export type BlockHeader = {
+  number: number;
+  hash: string;
+  parentHash: string;
 }
 
 // Load settings from env/config
@@ -96,6 +106,17 @@ export function getConfirmationsFromEnv(): number {
   return BLOCK_CONFIRMATIONS
 }
 
+// First block to replay PixelPlaced events from (VITE_INITIAL_EVENT_FROM_BLOCK)
+export function getInitialEventFromBlock(): number {
+  return Math.max(0, Number(import.meta.env.VITE_INITIAL_EVENT_FROM_BLOCK ?? '0') || 0)
+}
+
+// How a browser without a snapshot builds the canvas (VITE_INITIAL_SYNC_MODE):
+// 'tiles' reads current colors with getPixelsPacked, 'events' replays every PixelPlaced log
+export function getInitialSyncMode(): 'tiles' | 'events' {
+  return import.meta.env.VITE_INITIAL_SYNC_MODE === 'events' ? 'events' : 'tiles'
+}
+
 export function getMaxGasLimit(): number {
   return MAX_GAS_LIMIT
 }
@@ -252,11 +273,138 @@ export async function queryPixelPlacedEvents(fromBlock: number, toBlock: number)
       user: log.args.user as string,
       timestamp: log.args.timestamp as bigint,
       blockNumber: Number(log.blockNumber),
+      blockHash: log.blockHash ?? undefined,
+      logIndex: log.logIndex ?? undefined,
+      transactionHash: log.transactionHash ?? undefined,
     }))
   } catch (error) {
+    // Rethrown so callers never mistake a failed range for one without placements
     console.error('Failed to query pixel events:', error)
-    return []
+    throw error
+  }
+}
+
+// Hashes of transactions that emitted ProgrammableDataProcessed, i.e. placePixelWithProgrammableData calls
+export async function queryProgrammableDataTxHashes(fromBlock: number, toBlock: number): Promise<string[]> {
+  if (!CONTRACT_ADDRESS) {
+    throw new Error('Contract address not set')
   }
+
+  const publicClient = getPublicClientForReads()
+  const logs = await publicClient.getLogs({
+    address: CONTRACT_ADDRESS,
+    event: {
+      type: 'event',
+      name: 'ProgrammableDataProcessed',
+      inputs: [
+        { indexed: false, internalType: 'string', name: 'irysTxId', type: 'string' },
+        { indexed: false, internalType: 'bytes', name: 'data', type: 'bytes' },
+        { indexed: false, internalType: 'uint256', name: 'timestamp', type: 'uint256' }
+      ]
+    },
+    fromBlock: BigInt(fromBlock),
+    toBlock: BigInt(toBlock),
+  })
+  return logs.map(log => log.transactionHash).filter((hash): hash is `0x${string}` => !!hash)
+}
+
+// Chunked event fetcher to stay under provider log-range limits
+export async function fetchPixelEventsChunked(
+  fromBlock: number,
+  toBlock: number,
+  chunkSize = 2000,
+  onProgress?: (syncedTo: number, toBlock: number) => void
+): Promise<PixelPlacedEvent[]> {
+  const all: PixelPlacedEvent[] = []
+  if (fromBlock > toBlock) return all
+  let start = fromBlock
+  while (start <= toBlock) {
+    const end = Math.min(start + chunkSize - 1, toBlock)
+    const chunk = await queryPixelPlacedEvents(start, end)
+    if (chunk.length) all.push(...chunk)
+    onProgress?.(end, toBlock)
+    start = end + 1
+  }
+  return all
+}
+
+// Packed RGB bytes (row-major, 3 per pixel) for a rectangle of the canvas, read at blockNumber when given
+export async function fetchPixelsPacked(
+  startX: number,
+  startY: number,
+  rows: number,
+  cols: number,
+  blockNumber?: number
+): Promise<Uint8Array> {
+  if (!CONTRACT_ADDRESS) {
+    throw new Error('Contract address not set')
+  }
+
+  const publicClient = getPublicClientForReads()
+  const packed = await publicClient.readContract({
+    address: CONTRACT_ADDRESS,
+    abi: ABI,
+    functionName: 'getPixelsPacked',
+    args: [BigInt(startX), BigInt(startY), BigInt(rows), BigInt(cols)],
+    blockNumber: blockNumber != null ? BigInt(blockNumber) : undefined,
+  }) as `0x${string}`
+  return hexToBytes(packed)
+}
+
+export type PixelInfo = {
+  x: number;
+  y: number;
+  color: string | null; // #rrggbb, null when never placed
+  placedBy: string;
+  timestamp: number; // block timestamp (seconds)
+  irysTxId: string;
+  isProgrammableData: boolean;
+}
+
+// On-chain record for a single pixel, read at blockNumber when given
+export async function fetchPixelInfo(x: number, y: number, blockNumber?: number): Promise<PixelInfo> {
+  if (!CONTRACT_ADDRESS) {
+    throw new Error('Contract address not set')
+  }
+
+  const [color, placedBy, timestamp, irysTxId, isProgrammableData] = await readContract(wagmiConfig, {
+    address: CONTRACT_ADDRESS,
+    abi: ABI,
+    functionName: 'getPixel',
+    args: [BigInt(x), BigInt(y)],
+    blockNumber: blockNumber != null ? BigInt(blockNumber) : undefined,
+  }) as readonly [string, string, bigint, string, boolean]
+
+  const placed = Number(timestamp) > 0
+  return {
+    x,
+    y,
+    color: placed ? `#${color.slice(2, 8).toLowerCase()}` : null,
+    placedBy,
+    timestamp: Number(timestamp),
+    irysTxId,
+    isProgrammableData,
+  }
+}
+
+// Raw Programmable Data bytes stored for an Irys transaction ('0x' when none)
+export async function fetchStoredPDData(irysTxId: string): Promise<`0x${string}`> {
+  if (!CONTRACT_ADDRESS) {
+    throw new Error('Contract address not set')
+  }
+
+  return await readContract(wagmiConfig, {
+    address: CONTRACT_ADDRESS,
+    abi: ABI,
+    functionName: 'getStoredPDData',
+    args: [irysTxId],
+  }) as `0x${string}`
+}
+
+export async function fetchBlockHeader(blockNumber: number): Promise<BlockHeader> {
+  const publicClient = getPublicClientForReads()
+  const block = await publicClient.getBlock({ blockNumber: BigInt(blockNumber) })
+  return { number: Number(block.number), hash: block.hash, parentHash: block.parentHash }
 }
 
 export async function getCurrentBlockNumber(): Promise<number> {
@@ -270,6 +418,11 @@ export async function getCurrentBlockNumber(): Promise<number> {
   }
 }
 
+// Newest block with the configured confirmations; logs up to it are not expected to be reorganized away
+export async function getConfirmedBlockNumber(): Promise<number> {
+  return Math.max(0, (await getCurrentBlockNumber()) - BLOCK_CONFIRMATIONS)
+}
+
 export async function getRateLimitInfo() {
   if (!CONTRACT_ADDRESS) {
     throw new Error('Contract address not set')
@@ -0,0 +1,100 @@
+import type { PixelCoord, PixelRegion } from './canvasRenderer';
+
+// Board is bucketed into tiles; each dirty tile repaints the bounding box of its changed pixels
+const TILE_SIZE = 16;
+// Past this many dirty tiles a single full repaint is cheaper than many clipped ones
+const MAX_REGIONS = 128;
+
+type FlushHandler = (regions: PixelRegion[] | null) => void;
+
+const requestFrame = (callback: () => void): number =>
+  typeof requestAnimationFrame === 'function'
+    ? requestAnimationFrame(callback)
+    : (setTimeout(callback, 16) as unknown as number);
+
+const cancelFrame = (handle: number) => {
+  if (typeof cancelAnimationFrame === 'function') cancelAnimationFrame(handle);
+  else clearTimeout(handle);
+};
+
+/**
+ * Collects changed pixel coordinates and coalesces them into a small set of
+ * board regions, flushed at most once per animation frame.
+ * The handler receives null when the whole viewport should be repainted.
+ */
+export class DirtyRegionScheduler {
+  private tiles = new Map<number, { minX: number; minY: number; maxX: number; maxY: number }>();
+  private fullRepaint = false;
+  private frame: number | null = null;
+  private readonly onFlush: FlushHandler;
+
+  constructor(onFlush: FlushHandler) {
+    this.onFlush = onFlush;
+  }
+
+  invalidatePixels(coords: PixelCoord[]) {
+    if (!coords.length) return;
+    if (!this.fullRepaint) {
+      for (const { x, y } of coords) {
+        const key = Math.floor(y / TILE_SIZE) * 65536 + Math.floor(x / TILE_SIZE);
+        const tile = this.tiles.get(key);
+        if (!tile) {
+          this.tiles.set(key, { minX: x, minY: y, maxX: x, maxY: y });
+          continue;
+        }
+        if (x < tile.minX) tile.minX = x;
+        if (y < tile.minY) tile.minY = y;
+        if (x > tile.maxX) tile.maxX = x;
+        if (y > tile.maxY) tile.maxY = y;
+      }
+      if (this.tiles.size > MAX_REGIONS) {
+        this.fullRepaint = true;
+        this.tiles.clear();
+      }
+    }
+    this.schedule();
+  }
+
+  invalidateAll() {
+    this.fullRepaint = true;
+    this.tiles.clear();
+    this.schedule();
+  }
+
+  /** Drop anything pending, e.g. when a full synchronous draw just happened */
+  reset() {
+    this.fullRepaint = false;
+    this.tiles.clear();
+    if (this.frame !== null) {
+      cancelFrame(this.frame);
+      this.frame = null;
+    }
+  }
+
+  dispose() {
+    this.reset();
+  }
+
+  private schedule() {
+    if (this.frame !== null) return;
+    this.frame = requestFrame(() => this.flush());
+  }
+
+  private flush() {
+    this.frame = null;
+    if (this.fullRepaint) {
+      this.fullRepaint = false;
+      this.onFlush(null);
+      return;
+    }
+    if (!this.tiles.size) return;
+    const regions = Array.from(this.tiles.values()).map(tile => ({
+      x: tile.minX,
+      y: tile.minY,
+      width: tile.maxX - tile.minX + 1,
+      height: tile.maxY - tile.minY + 1,
+    }));
+    this.tiles.clear();
+    this.onFlush(regions);
+  }
+}
@@ -0,0 +1,154 @@
+import { parseHexColor, type CanvasViewport, type RenderContext } from './canvasRenderer';
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+
+export interface DraftPixel {
+  x: number;
+  y: number;
+  color: string;
+}
+
+/** A named local sketch layer; pixels are keyed by `${x}_${y}` */
+export interface DraftLayer {
+  id: string;
+  name: string;
+  visible: boolean;
+  opacity: number;
+  // Stacking position, lowest first
+  order: number;
+  pixels: Map<string, DraftPixel>;
+}
+
+/** One undoable step: the pixel before and after, per touched coordinate */
+export interface DraftEdit {
+  changes: Map<string, { before?: DraftPixel; after?: DraftPixel }>;
+}
+
+interface StoredDraftLayer extends Omit<DraftLayer, 'pixels'> {
+  pixels: DraftPixel[];
+}
+
+const DB_NAME = 'pixel-canvas-drafts';
+const DB_VERSION = 1;
+const LAYER_STORE = 'layers';
+
+export const draftKey = (x: number, y: number) => `${x}_${y}`;
+
+export function createDraftLayer(name: string, order: number): DraftLayer {
+  return {
+    id: `layer_${Date.now()}_${Math.random().toString(36).slice(2)}`,
+    name,
+    visible: true,
+    opacity: 0.8,
+    order,
+    pixels: new Map()
+  };
+}
+
+const openDraftDb = () => openDatabase(DB_NAME, DB_VERSION, (db) => {
+  if (!db.objectStoreNames.contains(LAYER_STORE)) {
+    db.createObjectStore(LAYER_STORE, { keyPath: 'id' });
+  }
+});
+
+export async function loadDraftLayers(): Promise<DraftLayer[]> {
+  const db = await openDraftDb();
+  const stored = await requestToPromise<StoredDraftLayer[]>(
+    db.transaction(LAYER_STORE, 'readonly').objectStore(LAYER_STORE).getAll()
+  );
+  return stored
+    .map(layer => ({
+      ...layer,
+      pixels: new Map((layer.pixels ?? []).map(p => [draftKey(p.x, p.y), p]))
+    }))
+    .sort((a, b) => a.order - b.order);
+}
+
+/** Write changed layers and delete removed ones in one transaction */
+export async function saveDraftLayers(changed: readonly DraftLayer[], removedIds: readonly string[]) {
+  const db = await openDraftDb();
+  const transaction = db.transaction(LAYER_STORE, 'readwrite');
+  const store = transaction.objectStore(LAYER_STORE);
+  for (const layer of changed) {
+    const stored: StoredDraftLayer = { ...layer, pixels: [...layer.pixels.values()] };
+    store.put(stored);
+  }
+  for (const id of removedIds) store.delete(id);
+  await transactionDone(transaction);
+}
+
+/** Paint pixels into a layer; returns the new pixel map and the edit that undoes it */
+export function paintDraftPixels(
+  pixels: Map<string, DraftPixel>,
+  painted: readonly DraftPixel[],
+  boardSize: number
+): { pixels: Map<string, DraftPixel>; edit: DraftEdit } {
+  const next = new Map(pixels);
+  const changes: DraftEdit['changes'] = new Map();
+  for (const { x, y, color } of painted) {
+    if (x < 0 || y < 0 || x >= boardSize || y >= boardSize) continue;
+    const key = draftKey(x, y);
+    const before = next.get(key);
+    if (before?.color === color) continue;
+    const after = { x, y, color };
+    next.set(key, after);
+    const existing = changes.get(key);
+    changes.set(key, { before: existing ? existing.before : before, after });
+  }
+  return { pixels: next, edit: { changes } };
+}
+
+/** Edit that removes every pixel of a layer */
+export function clearDraftEdit(pixels: Map<string, DraftPixel>): DraftEdit {
+  return { changes: new Map([...pixels].map(([key, before]) => [key, { before }])) };
+}
+
+export function applyDraftEdit(
+  pixels: Map<string, DraftPixel>,
+  edit: DraftEdit,
+  direction: 'undo' | 'redo'
+): Map<string, DraftPixel> {
+  const next = new Map(pixels);
+  for (const [key, { before, after }] of edit.changes) {
+    const value = direction === 'undo' ? before : after;
+    if (value) next.set(key, value);
+    else next.delete(key);
+  }
+  return next;
+}
+
+/** Fold `later` into `earlier` so a continuous stroke undoes as one step */
+export function mergeDraftEdits(earlier: DraftEdit, later: DraftEdit): DraftEdit {
+  const changes = new Map(earlier.changes);
+  for (const [key, change] of later.changes) {
+    const existing = changes.get(key);
+    changes.set(key, existing ? { before: existing.before, after: change.after } : change);
+  }
+  return { changes };
+}
+
+/**
+ * Layer pixels whose color differs from the live board (what committing would
+ * place). `board` is a packed color index as built by buildBoardColorIndex.
+ */
+export function diffDraftLayer(layer: DraftLayer, board: Int32Array, boardSize: number): DraftPixel[] {
+  const pending: DraftPixel[] = [];
+  for (const pixel of layer.pixels.values()) {
+    if (board[pixel.y * boardSize + pixel.x] !== parseHexColor(pixel.color)) pending.push(pixel);
+  }
+  return pending;
+}
+
+export function drawDraftLayer(ctx: RenderContext, viewport: CanvasViewport, layer: DraftLayer) {
+  const { zoom, panX, panY, width, height } = viewport;
+  const size = Math.max(1, zoom);
+  ctx.save();
+  ctx.globalAlpha = layer.opacity;
+  for (const pixel of layer.pixels.values()) {
+    const xPos = pixel.x * zoom + panX;
+    const yPos = pixel.y * zoom + panY;
+    if (xPos < -size || xPos > width || yPos < -size || yPos > height) continue;
+    ctx.fillStyle = pixel.color;
+    ctx.fillRect(xPos, yPos, size, size);
+  }
+  ctx.restore();
+}
@@ -0,0 +1,160 @@
+import type { PixelCoord } from './canvasRenderer';
+
+export type DrawingTool = 'place' | 'eyedropper' | 'pencil' | 'line' | 'rect' | 'rect-filled' | 'ellipse' | 'fill' | 'text';
+
+/** Tools that span a drag from a start point to the current point */
+export type ShapeTool = 'line' | 'rect' | 'rect-filled' | 'ellipse';
+
+/** Pointer callbacks the canvas forwards, in board coordinates, while a tool is active */
+export interface CanvasDrawingHandlers {
+  begin: (point: PixelCoord) => void;
+  move: (point: PixelCoord) => void;
+  end: () => void;
+}
+
+// Flood fill stops past this many pixels instead of filling the whole board
+export const FLOOD_FILL_LIMIT = 4096;
+// Same cap for line/rect/ellipse drags, checked before rasterizing
+export const SHAPE_PIXEL_LIMIT = FLOOD_FILL_LIMIT;
+
+export function isShapeTool(tool: DrawingTool): tool is ShapeTool {
+  return tool === 'line' || tool === 'rect' || tool === 'rect-filled' || tool === 'ellipse';
+}
+
+/** Bresenham line, endpoints included */
+export function rasterizeLine(from: PixelCoord, to: PixelCoord): PixelCoord[] {
+  const points: PixelCoord[] = [];
+  let x = from.x;
+  let y = from.y;
+  const dx = Math.abs(to.x - x);
+  const dy = -Math.abs(to.y - y);
+  const sx = x < to.x ? 1 : -1;
+  const sy = y < to.y ? 1 : -1;
+  let error = dx + dy;
+  for (;;) {
+    points.push({ x, y });
+    if (x === to.x && y === to.y) break;
+    const e2 = 2 * error;
+    if (e2 >= dy) {
+      error += dy;
+      x += sx;
+    }
+    if (e2 <= dx) {
+      error += dx;
+      y += sy;
+    }
+  }
+  return points;
+}
+
+export function rasterizeRect(a: PixelCoord, b: PixelCoord, filled: boolean): PixelCoord[] {
+  const left = Math.min(a.x, b.x);
+  const right = Math.max(a.x, b.x);
+  const top = Math.min(a.y, b.y);
+  const bottom = Math.max(a.y, b.y);
+  const points: PixelCoord[] = [];
+  for (let y = top; y <= bottom; y++) {
+    for (let x = left; x <= right; x++) {
+      if (filled || y === top || y === bottom || x === left || x === right) points.push({ x, y });
+    }
+  }
+  return points;
+}
+
+/**
+ * Ellipse outline inscribed in the rectangle spanned by a and b.
+ * Each row and column is sampled so steep and flat parts both stay connected.
+ */
+export function rasterizeEllipse(a: PixelCoord, b: PixelCoord): PixelCoord[] {
+  const left = Math.min(a.x, b.x);
+  const right = Math.max(a.x, b.x);
+  const top = Math.min(a.y, b.y);
+  const bottom = Math.max(a.y, b.y);
+  const cx = (left + right) / 2;
+  const cy = (top + bottom) / 2;
+  const rx = (right - left) / 2;
+  const ry = (bottom - top) / 2;
+  if (rx === 0 || ry === 0) return rasterizeRect(a, b, true);
+
+  const seen = new Set<string>();
+  const points: PixelCoord[] = [];
+  const add = (x: number, y: number) => {
+    const key = `${x}_${y}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    points.push({ x, y });
+  };
+  for (let y = top; y <= bottom; y++) {
+    const t = (y - cy) / ry;
+    const span = rx * Math.sqrt(Math.max(0, 1 - t * t));
+    add(Math.round(cx - span), y);
+    add(Math.round(cx + span), y);
+  }
+  for (let x = left; x <= right; x++) {
+    const t = (x - cx) / rx;
+    const span = ry * Math.sqrt(Math.max(0, 1 - t * t));
+    add(x, Math.round(cy - span));
+    add(x, Math.round(cy + span));
+  }
+  return points;
+}
+
+/** Pixels a shape spanning a and b covers (an upper bound for ellipses), without rasterizing it */
+export function countShapePixels(tool: ShapeTool, a: PixelCoord, b: PixelCoord): number {
+  const width = Math.abs(a.x - b.x) + 1;
+  const height = Math.abs(a.y - b.y) + 1;
+  if (tool === 'line') return Math.max(width, height);
+  if (tool === 'rect-filled' || width === 1 || height === 1) return width * height;
+  return tool === 'rect' ? 2 * (width + height) - 4 : 2 * (width + height);
+}
+
+/** Pixels of a shape, or null when it would cover more than `limit` */
+export function rasterizeShape(
+  tool: ShapeTool,
+  a: PixelCoord,
+  b: PixelCoord,
+  limit = SHAPE_PIXEL_LIMIT
+): PixelCoord[] | null {
+  if (countShapePixels(tool, a, b) > limit) return null;
+  switch (tool) {
+    case 'line': return rasterizeLine(a, b);
+    case 'rect': return rasterizeRect(a, b, false);
+    case 'rect-filled': return rasterizeRect(a, b, true);
+    case 'ellipse': return rasterizeEllipse(a, b);
+  }
+}
+
+/**
+ * 4-connected region around `start` sharing its color (undefined = empty).
+ * Returns null when the region grows past `limit` pixels.
+ */
+export function floodFill(
+  start: PixelCoord,
+  colorAt: (x: number, y: number) => string | undefined,
+  boardSize: number,
+  limit = FLOOD_FILL_LIMIT
+): PixelCoord[] | null {
+  const target = colorAt(start.x, start.y);
+  const visited = new Set<number>([start.y * boardSize + start.x]);
+  const stack: PixelCoord[] = [start];
+  const region: PixelCoord[] = [];
+  while (stack.length) {
+    const point = stack.pop()!;
+    region.push(point);
+    if (region.length > limit) return null;
+    const neighbours = [
+      { x: point.x + 1, y: point.y },
+      { x: point.x - 1, y: point.y },
+      { x: point.x, y: point.y + 1 },
+      { x: point.x, y: point.y - 1 },
+    ];
+    for (const next of neighbours) {
+      if (next.x < 0 || next.y < 0 || next.x >= boardSize || next.y >= boardSize) continue;
+      const key = next.y * boardSize + next.x;
+      if (visited.has(key)) continue;
+      visited.add(key);
+      if (colorAt(next.x, next.y) === target) stack.push(next);
+    }
+  }
+  return region;
+}
@@ -0,0 +1,55 @@
+// Minimal promise wrappers over the IndexedDB request API
+
+const databases = new Map<string, Promise<IDBDatabase>>();
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+/**
+ * Open (and cache) a database; `upgrade` creates object stores when the
+ * stored version is older than `version`
+ */
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number) => void
+): Promise<IDBDatabase> {
+  const cached = databases.get(name);
+  if (cached) return cached;
+
+  const opening = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema: drop this connection so it can proceed
+      db.onversionchange = () => {
+        db.close();
+        databases.delete(name);
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error ?? new Error(`Failed to open ${name}`));
+    request.onblocked = () => reject(new Error(`${name} is open in another tab with an older version`));
+  });
+  // Allow a retry after a failed open
+  opening.catch(() => databases.delete(name));
+  databases.set(name, opening);
+  return opening;
+}
@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PixelEventLog } from './pixelEventLog';
+import { queryPixelPlacedEvents, type PixelPlacedEvent } from './contract';
+
+vi.mock('./contract', () => ({
+  CONTRACT_ADDRESS: '0x0000000000000000000000000000000000000001',
+  getInitialEventFromBlock: () => 0,
+  queryPixelPlacedEvents: vi.fn(),
+  queryProgrammableDataTxHashes: vi.fn(),
+}));
+
+// One placement at the first block of every queried range
+const placedAt = (blockNumber: number): PixelPlacedEvent => ({
+  x: 1n,
+  y: 2n,
+  color: '0xff0000',
+  user: '0xabc',
+  timestamp: 1700000000n,
+  blockNumber,
+  logIndex: 0,
+});
+
+describe('PixelEventLog', () => {
+  const query = vi.mocked(queryPixelPlacedEvents);
+
+  beforeEach(() => {
+    query.mockReset().mockImplementation(async (from) => [placedAt(from)]);
+  });
+
+  it('loads missing blocks in chunks, in chain order', async () => {
+    const log = new PixelEventLog(0, 10);
+    const progress: number[] = [];
+    const events = await log.ensureLoaded(24, fraction => progress.push(fraction));
+
+    expect(query.mock.calls).toEqual([[0, 9], [10, 19], [20, 24]]);
+    expect(events.map(ev => ev.blockNumber)).toEqual([0, 10, 20]);
+    expect(progress).toEqual([0.4, 0.8, 1]);
+    expect(log.loadedToBlock).toBe(24);
+  });
+
+  it('only fetches blocks past what is already loaded', async () => {
+    const log = new PixelEventLog(0, 10);
+    await log.ensureLoaded(9);
+    query.mockClear();
+
+    await log.ensureLoaded(9);
+    expect(query).not.toHaveBeenCalled();
+    await log.ensureLoaded(15);
+    expect(query.mock.calls).toEqual([[10, 15]]);
+  });
+
+  it('keeps the chunks before a failed one and retries from the failed chunk', async () => {
+    const log = new PixelEventLog(0, 10);
+    query.mockImplementation(async (from) => {
+      if (from === 10) throw new Error('rpc down');
+      return [placedAt(from)];
+    });
+
+    await expect(log.ensureLoaded(29)).rejects.toThrow('rpc down');
+    expect(log.loadedToBlock).toBe(9);
+    expect(log.getEvents().map(ev => ev.blockNumber)).toEqual([0]);
+
+    query.mockReset().mockImplementation(async (from) => [placedAt(from)]);
+    const events = await log.ensureLoaded(29);
+    expect(query.mock.calls).toEqual([[10, 19], [20, 29]]);
+    expect(events.map(ev => ev.blockNumber)).toEqual([0, 10, 20]);
+  });
+});
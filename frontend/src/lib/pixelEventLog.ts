@@ -0,0 +1,156 @@
+import {
+  CONTRACT_ADDRESS,
+  getInitialEventFromBlock,
+  queryPixelPlacedEvents,
+  queryProgrammableDataTxHashes,
+  type PixelPlacedEvent
+} from './contract';
+import { orderPixelEvents } from './pixelEventOrder';
+
+/**
+ * A PixelPlaced event normalized for replay: plain numbers, #rrggbb color,
+ * timestamp in milliseconds like the rest of the UI.
+ */
+export interface PixelHistoryEvent {
+  x: number;
+  y: number;
+  color: string;
+  owner: string;
+  timestamp: number;
+  blockNumber: number;
+  logIndex?: number;
+  transactionHash?: string;
+}
+
+export const toHistoryEvent = (ev: PixelPlacedEvent): PixelHistoryEvent => ({
+  x: Number(ev.x),
+  y: Number(ev.y),
+  color: `#${(ev.color || '').replace('0x', '').padStart(6, '0').slice(0, 6).toLowerCase()}`,
+  owner: ev.user,
+  timestamp: Number(ev.timestamp) * 1000,
+  blockNumber: ev.blockNumber,
+  logIndex: ev.logIndex,
+  transactionHash: ev.transactionHash,
+});
+
+/**
+ * In-memory log of every PixelPlaced event from the configured start block,
+ * kept in chain order (block, then log index) and only ever extended at the tail. History views
+ * (timelapse, time travel, diffs) share it so each block range is fetched once,
+ * independently of the live sync in useCanvasSync. Nothing is ever rolled back,
+ * so callers only load confirmed blocks (see getConfirmedBlockNumber).
+ */
+export class PixelEventLog {
+  private events: PixelHistoryEvent[] = [];
+  private loadedTo: number;
+  private pending: Promise<void> | null = null;
+
+  constructor(readonly fromBlock: number, private readonly chunkSize = 2000) {
+    this.loadedTo = fromBlock - 1;
+  }
+
+  /** Last block whose events are in the log */
+  get loadedToBlock(): number {
+    return this.loadedTo;
+  }
+
+  getEvents(): readonly PixelHistoryEvent[] {
+    return this.events;
+  }
+
+  /**
+   * Fetch whatever is missing up to `toBlock`.
+   * onProgress receives the fraction of the missing range already fetched.
+   * A failed chunk rejects the call; chunks before it stay loaded and the
+   * next call resumes from the failed one.
+   */
+  async ensureLoaded(toBlock: number, onProgress?: (fraction: number) => void): Promise<readonly PixelHistoryEvent[]> {
+    while (this.pending) {
+      await this.pending;
+    }
+    if (toBlock <= this.loadedTo) {
+      onProgress?.(1);
+      return this.events;
+    }
+
+    const start = this.loadedTo + 1;
+    const span = toBlock - start + 1;
+    this.pending = (async () => {
+      for (let chunkStart = start; chunkStart <= toBlock; chunkStart += this.chunkSize) {
+        const end = Math.min(chunkStart + this.chunkSize - 1, toBlock);
+        const fetched = await queryPixelPlacedEvents(chunkStart, end);
+        // Chunks are fetched in block order, so ordering each one keeps the whole log in chain order
+        for (const ev of orderPixelEvents(fetched)) this.events.push(toHistoryEvent(ev));
+        this.loadedTo = end;
+        onProgress?.((end - start + 1) / span);
+      }
+    })();
+
+    try {
+      await this.pending;
+    } finally {
+      this.pending = null;
+    }
+    return this.events;
+  }
+}
+
+/**
+ * Transactions that went through placePixelWithProgrammableData, found via
+ * their ProgrammableDataProcessed event. Fetched on demand (provenance views)
+ * and, like the event log, only extended at the tail with confirmed blocks.
+ */
+export class ProgrammableTxLog {
+  private hashes = new Set<string>();
+  private loadedTo: number;
+  private pending: Promise<void> | null = null;
+
+  constructor(readonly fromBlock: number, private readonly chunkSize = 2000) {
+    this.loadedTo = fromBlock - 1;
+  }
+
+  has(transactionHash: string | undefined): boolean {
+    return !!transactionHash && this.hashes.has(transactionHash.toLowerCase());
+  }
+
+  async ensureLoaded(toBlock: number): Promise<void> {
+    while (this.pending) {
+      await this.pending;
+    }
+    if (toBlock <= this.loadedTo) return;
+
+    this.pending = (async () => {
+      for (let start = this.loadedTo + 1; start <= toBlock; start += this.chunkSize) {
+        const end = Math.min(start + this.chunkSize - 1, toBlock);
+        for (const hash of await queryProgrammableDataTxHashes(start, end)) this.hashes.add(hash.toLowerCase());
+        this.loadedTo = end;
+      }
+    })();
+
+    try {
+      await this.pending;
+    } finally {
+      this.pending = null;
+    }
+  }
+}
+
+let sharedLog: { contract: string; log: PixelEventLog } | null = null;
+let sharedTxLog: { contract: string; log: ProgrammableTxLog } | null = null;
+
+/**
+ * Event log for the configured contract, shared across history features
+ */
+export function getPixelEventLog(): PixelEventLog {
+  if (!sharedLog || sharedLog.contract !== CONTRACT_ADDRESS) {
+    sharedLog = { contract: CONTRACT_ADDRESS, log: new PixelEventLog(getInitialEventFromBlock()) };
+  }
+  return sharedLog.log;
+}
+
+export function getProgrammableTxLog(): ProgrammableTxLog {
+  if (!sharedTxLog || sharedTxLog.contract !== CONTRACT_ADDRESS) {
+    sharedTxLog = { contract: CONTRACT_ADDRESS, log: new ProgrammableTxLog(getInitialEventFromBlock()) };
+  }
+  return sharedTxLog.log;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { compareEventPosition, orderPixelEvents } from './pixelEventOrder';
+
+interface TestEvent {
+  blockNumber: number;
+  logIndex?: number;
+  color: string;
+}
+
+const ev = (blockNumber: number, logIndex: number | undefined, color: string): TestEvent => ({ blockNumber, logIndex, color });
+
+describe('compareEventPosition', () => {
+  it('orders by block, then log index', () => {
+    expect(compareEventPosition(ev(1, 5, ''), ev(2, 0, ''))).toBeLessThan(0);
+    expect(compareEventPosition(ev(2, 1, ''), ev(2, 0, ''))).toBeGreaterThan(0);
+    expect(compareEventPosition(ev(2, 3, ''), ev(2, 3, ''))).toBe(0);
+  });
+});
+
+describe('orderPixelEvents', () => {
+  it('sorts out-of-order logs into chain order', () => {
+    const events = [ev(7, 2, 'c'), ev(5, 1, 'b'), ev(7, 0, 'a'), ev(5, 0, 'z')];
+    expect(orderPixelEvents(events).map(e => `${e.blockNumber}:${e.logIndex}`)).toEqual(['5:0', '5:1', '7:0', '7:2']);
+  });
+
+  it('lets the later log in a block win for the same pixel', () => {
+    // Two placements on one pixel in block 9, returned newest first by the RPC
+    const ordered = orderPixelEvents([ev(9, 4, '#00ff00'), ev(9, 1, '#ff0000')]);
+    expect(ordered[ordered.length - 1].color).toBe('#00ff00');
+  });
+
+  it('drops duplicate logs from overlapping queries', () => {
+    const events = [ev(3, 0, 'a'), ev(3, 1, 'b'), ev(3, 0, 'a'), ev(4, 0, 'c'), ev(3, 1, 'b')];
+    expect(orderPixelEvents(events).map(e => e.color)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('keeps events without a log index, in their original order within a block', () => {
+    const events = [ev(2, undefined, 'second'), ev(1, 0, 'first'), ev(2, undefined, 'third')];
+    expect(orderPixelEvents(events).map(e => e.color)).toEqual(['first', 'second', 'third']);
+  });
+
+  it('does not modify the input', () => {
+    const events = [ev(2, 0, 'b'), ev(1, 0, 'a')];
+    orderPixelEvents(events);
+    expect(events.map(e => e.color)).toEqual(['b', 'a']);
+  });
+});
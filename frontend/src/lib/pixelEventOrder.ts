@@ -0,0 +1,26 @@
+// Position of a log in the chain. Within a block, logs are numbered in the
+// order the contract emitted them, so (blockNumber, logIndex) is the order in
+// which the contract wrote pixels.
+export interface EventPosition {
+  blockNumber: number;
+  logIndex?: number;
+}
+
+export const compareEventPosition = (a: EventPosition, b: EventPosition) =>
+  a.blockNumber - b.blockNumber || (a.logIndex ?? 0) - (b.logIndex ?? 0);
+
+/**
+ * Events sorted into chain order, dropping repeats of a position (the same log
+ * returned by overlapping queries). Events without a log index keep their
+ * relative order within a block.
+ */
+export function orderPixelEvents<E extends EventPosition>(events: readonly E[]): E[] {
+  const seen = new Set<string>();
+  return [...events].sort(compareEventPosition).filter(ev => {
+    if (ev.logIndex == null) return true;
+    const key = `${ev.blockNumber}:${ev.logIndex}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,163 @@
+// Bitmap fonts for the text tool and a renderer that turns text into pixels.
+// Glyphs are stored column by column as hex bytes, bit 0 being the top row.
+
+import type { PixelCoord } from './canvasRenderer';
+
+export interface BitmapFont {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  // Font has no lowercase glyphs; lowercase text is drawn in capitals
+  upperOnly: boolean;
+  glyphs: Record<string, string>;
+}
+
+export interface TextRenderOptions {
+  font: BitmapFont;
+  // Each font pixel becomes a scale × scale block
+  scale: number;
+  // Extra empty columns between glyphs, in font pixels
+  letterSpacing: number;
+  color: string;
+  // 1px ring around the glyphs (after scaling); null for none
+  outlineColor: string | null;
+}
+
+export interface RenderedText {
+  width: number;
+  height: number;
+  // Relative to the top-left corner of the text block
+  pixels: { x: number; y: number; color: string }[];
+}
+
+const TINY_3X5: BitmapFont = {
+  id: 'tiny',
+  name: 'Tiny 3×5',
+  width: 3,
+  height: 5,
+  upperOnly: true,
+  glyphs: {
+    'A': '1e051e', 'B': '1f150a', 'C': '0e1111', 'D': '1f110e', 'E': '1f1511', 'F': '1f0501',
+    'G': '0e111d', 'H': '1f041f', 'I': '111f11', 'J': '08100f', 'K': '1f041b', 'L': '1f1010',
+    'M': '1f061f', 'N': '1f011f', 'O': '0e110e', 'P': '1f0502', 'Q': '0e1916', 'R': '1f051a',
+    'S': '121509', 'T': '011f01', 'U': '0f101f', 'V': '071807', 'W': '1f0c1f', 'X': '1b041b',
+    'Y': '031c03', 'Z': '191513', '0': '1f111f', '1': '121f10', '2': '191512', '3': '11150a',
+    '4': '07041f', '5': '171509', '6': '1e151d', '7': '011d03', '8': '1f151f', '9': '17150f',
+    ' ': '000000', '!': '001700', '?': '011502', '.': '001000', ',': '100800', ':': '000a00',
+    ';': '100a00', "'": '000300', '"': '030003', '-': '040404', '+': '040e04', '=': '0a0a0a',
+    '/': '180403', '\\': '030418', '(': '0e1100', ')': '00110e', '[': '1f1100', ']': '00111f',
+    '#': '1f0a1f', '<': '040a11', '>': '110a04', '_': '101010', '*': '050205', '&': '0a151a',
+    '@': '1f1517', '%': '190413', '$': '121f09', '^': '020102', '|': '001f00'
+  }
+};
+
+const STANDARD_5X7: BitmapFont = {
+  id: 'standard',
+  name: 'Standard 5×7',
+  width: 5,
+  height: 7,
+  upperOnly: false,
+  glyphs: {
+    ' ': '0000000000', '!': '00005f0000', '"': '0007000700', '#': '147f147f14', '$': '242a7f2a12',
+    '%': '2313086462', '&': '3649562050', "'": '0005030000', '(': '001c224100', ')': '0041221c00',
+    '*': '2a1c7f1c2a', '+': '08083e0808', ',': '0050300000', '-': '0808080808', '.': '0060600000',
+    '/': '2010080402', '0': '3e5149453e', '1': '00427f4000', '2': '4261514946', '3': '2141454b31',
+    '4': '1814127f10', '5': '2745454539', '6': '3c4a494930', '7': '0171090503', '8': '3649494936',
+    '9': '064949291e', ':': '0036360000', ';': '0056360000', '<': '0814224100', '=': '1414141414',
+    '>': '0041221408', '?': '0201510906', '@': '324979413e', 'A': '7e1111117e', 'B': '7f49494936',
+    'C': '3e41414122', 'D': '7f4141221c', 'E': '7f49494941', 'F': '7f09090901', 'G': '3e4149497a',
+    'H': '7f0808087f', 'I': '00417f4100', 'J': '2040413f01', 'K': '7f08142241', 'L': '7f40404040',
+    'M': '7f020c027f', 'N': '7f0408107f', 'O': '3e4141413e', 'P': '7f09090906', 'Q': '3e4151215e',
+    'R': '7f09192946', 'S': '4649494931', 'T': '01017f0101', 'U': '3f4040403f', 'V': '1f2040201f',
+    'W': '3f4038403f', 'X': '6314081463', 'Y': '0708700807', 'Z': '6151494543', '[': '007f414100',
+    '\\': '0204081020', ']': '0041417f00', '^': '0402010204', '_': '4040404040', '`': '0001020400',
+    'a': '2054545478', 'b': '7f48444438', 'c': '3844444420', 'd': '384444487f', 'e': '3854545418',
+    'f': '087e090102', 'g': '0c5252523e', 'h': '7f08040478', 'i': '00447d4000', 'j': '2040443d00',
+    'k': '7f10284400', 'l': '00417f4000', 'm': '7c04180478', 'n': '7c08040478', 'o': '3844444438',
+    'p': '7c14141408', 'q': '081414187c', 'r': '7c08040408', 's': '4854545420', 't': '043f444020',
+    'u': '3c4040207c', 'v': '1c2040201c', 'w': '3c4030403c', 'x': '4428102844', 'y': '0c5050503c',
+    'z': '4464544c44', '{': '0008364100', '|': '00007f0000', '}': '0041360800', '~': '0201020402'
+  }
+};
+
+export const PIXEL_FONTS: BitmapFont[] = [TINY_3X5, STANDARD_5X7];
+
+const decodedGlyphs = new WeakMap<BitmapFont, Map<string, number[]>>();
+
+function glyphColumns(font: BitmapFont, char: string): number[] {
+  let cache = decodedGlyphs.get(font);
+  if (!cache) {
+    cache = new Map();
+    decodedGlyphs.set(font, cache);
+  }
+  const key = font.upperOnly ? char.toUpperCase() : char;
+  const cached = cache.get(key);
+  if (cached) return cached;
+  // Unknown characters render as '?'
+  const hex = font.glyphs[key] ?? font.glyphs['?'];
+  const columns: number[] = [];
+  for (let i = 0; i < hex.length; i += 2) columns.push(parseInt(hex.slice(i, i + 2), 16));
+  cache.set(key, columns);
+  return columns;
+}
+
+/**
+ * Rasterize text (newlines start new lines) with the given font and options.
+ * The outline, if any, sits inside the returned bounds, so every pixel has
+ * non-negative coordinates.
+ */
+export function renderText(text: string, options: TextRenderOptions): RenderedText {
+  const { font, color, outlineColor } = options;
+  const scale = Math.max(1, Math.floor(options.scale));
+  const spacing = Math.max(0, Math.floor(options.letterSpacing));
+  const margin = outlineColor ? 1 : 0;
+  const ink = new Set<string>();
+  const inkPoints: PixelCoord[] = [];
+
+  const lines = text.split('\n');
+  let textWidth = 0;
+  lines.forEach((line, row) => {
+    const top = row * (font.height + 1) * scale;
+    let left = 0;
+    [...line].forEach((char, index) => {
+      if (index > 0) left += spacing * scale;
+      glyphColumns(font, char).forEach((bits, column) => {
+        for (let y = 0; y < font.height; y++) {
+          if (!(bits & (1 << y))) continue;
+          for (let dy = 0; dy < scale; dy++) {
+            for (let dx = 0; dx < scale; dx++) {
+              const point = { x: margin + left + column * scale + dx, y: margin + top + y * scale + dy };
+              ink.add(`${point.x}_${point.y}`);
+              inkPoints.push(point);
+            }
+          }
+        }
+      });
+      left += font.width * scale;
+    });
+    textWidth = Math.max(textWidth, left);
+  });
+
+  const pixels: RenderedText['pixels'] = [];
+  if (outlineColor) {
+    const ring = new Set<string>();
+    for (const { x, y } of inkPoints) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const key = `${x + dx}_${y + dy}`;
+          if (ink.has(key) || ring.has(key)) continue;
+          ring.add(key);
+          pixels.push({ x: x + dx, y: y + dy, color: outlineColor });
+        }
+      }
+    }
+  }
+  for (const point of inkPoints) pixels.push({ ...point, color });
+
+  return {
+    width: textWidth + margin * 2,
+    height: lines.length * (font.height + 1) * scale - scale + margin * 2,
+    pixels
+  };
+}
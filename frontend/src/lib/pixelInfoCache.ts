@@ -0,0 +1,92 @@
+import { hexToString } from 'viem';
+import { fetchPixelInfo, fetchStoredPDData, type PixelInfo } from './contract';
+
+// Pixel records can change at any time; PD payloads are immutable per Irys tx
+const PIXEL_INFO_TTL = 30_000;
+const MAX_PIXEL_ENTRIES = 500;
+
+export interface DecodedPDData {
+  // UTF-8 text of the stored bytes
+  text: string;
+  // Parsed payload when the text is JSON
+  json: unknown | null;
+  byteLength: number;
+}
+
+const pixelInfoCache = new Map<string, { info: PixelInfo; expires: number }>();
+const pixelInfoRequests = new Map<string, Promise<PixelInfo>>();
+const pdDataCache = new Map<string, DecodedPDData | null>();
+const pdDataRequests = new Map<string, Promise<DecodedPDData | null>>();
+
+/**
+ * Decode stored Programmable Data bytes; null when nothing is stored
+ */
+export function decodePDData(hex: `0x${string}`): DecodedPDData | null {
+  if (!hex || hex === '0x') return null;
+  const byteLength = (hex.length - 2) / 2;
+  let text: string;
+  try {
+    text = hexToString(hex).replace(/\0+$/, '');
+  } catch {
+    return { text: hex, json: null, byteLength };
+  }
+  let json: unknown | null = null;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    // Not JSON; keep the plain text
+  }
+  return { text, json, byteLength };
+}
+
+/**
+ * getPixel(x, y) with a short-lived cache and shared in-flight requests.
+ * `hint` is the locally known state of the pixel (e.g. its color); a different
+ * hint than the cached lookup was made with means the pixel changed since.
+ */
+export async function getPixelInfoCached(x: number, y: number, hint = ''): Promise<PixelInfo> {
+  const key = `${x}_${y}_${hint}`;
+  const cached = pixelInfoCache.get(key);
+  if (cached && cached.expires > Date.now()) return cached.info;
+
+  const pending = pixelInfoRequests.get(key);
+  if (pending) return pending;
+
+  const request = fetchPixelInfo(x, y)
+    .then(info => {
+      if (pixelInfoCache.size >= MAX_PIXEL_ENTRIES) {
+        // Map iteration order is insertion order: drop the oldest entry
+        const oldest = pixelInfoCache.keys().next().value;
+        if (oldest !== undefined) pixelInfoCache.delete(oldest);
+      }
+      pixelInfoCache.set(key, { info, expires: Date.now() + PIXEL_INFO_TTL });
+      return info;
+    })
+    .finally(() => {
+      pixelInfoRequests.delete(key);
+    });
+  pixelInfoRequests.set(key, request);
+  return request;
+}
+
+/**
+ * getStoredPDData(irysTxId), decoded and cached for the session
+ */
+export async function getPDDataCached(irysTxId: string): Promise<DecodedPDData | null> {
+  if (pdDataCache.has(irysTxId)) return pdDataCache.get(irysTxId) ?? null;
+
+  const pending = pdDataRequests.get(irysTxId);
+  if (pending) return pending;
+
+  const request = fetchStoredPDData(irysTxId)
+    .then(hex => {
+      const decoded = decodePDData(hex);
+      pdDataCache.set(irysTxId, decoded);
+      return decoded;
+    })
+    .finally(() => {
+      pdDataRequests.delete(irysTxId);
+    });
+  pdDataRequests.set(irysTxId, request);
+  return request;
+}
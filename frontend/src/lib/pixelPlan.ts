@@ -0,0 +1,216 @@
+import { formatHexColor, parseHexColor } from './canvasRenderer';
+
+export type DitherMode = 'none' | 'floyd-steinberg' | 'ordered';
+
+/** One placement of a plan, in board coordinates */
+export interface PlannedPixel {
+  x: number;
+  y: number;
+  color: string;
+}
+
+export interface PlanEstimate {
+  pixels: number;
+  costWei: bigint | null;
+  etaSeconds: number;
+}
+
+// Source pixels below this alpha are left out of the plan
+const MIN_OPAQUE_ALPHA = 128;
+const TRANSPARENT = -1;
+
+// 4x4 Bayer matrix, thresholds in [-0.5, 0.5)
+const BAYER_4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5].map(v => (v + 0.5) / 16 - 0.5);
+
+/**
+ * Resample an image to the target size with smoothing, so downscaled
+ * photos average their colors instead of dropping source pixels
+ */
+export function resampleImage(source: CanvasImageSource, width: number, height: number): Uint8ClampedArray {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+}
+
+/**
+ * Parse a list of colors separated by spaces, commas or newlines.
+ * Invalid entries are dropped, duplicates kept once.
+ */
+export function parsePalette(colors: readonly string[] | string): number[] {
+  const list = typeof colors === 'string' ? colors.split(/[\s,;]+/) : colors;
+  const packed = new Set<number>();
+  for (const entry of list) {
+    const value = entry.trim();
+    if (!value) continue;
+    const rgb = parseHexColor(value.startsWith('#') ? value : `#${value}`);
+    if (rgb !== null) packed.add(rgb);
+  }
+  return Array.from(packed);
+}
+
+// Perceptually weighted RGB distance ("redmean"), squared
+function colorDistance(r1: number, g1: number, b1: number, rgb: number): number {
+  const r2 = (rgb >> 16) & 0xff;
+  const g2 = (rgb >> 8) & 0xff;
+  const b2 = rgb & 0xff;
+  const rMean = (r1 + r2) / 2;
+  const dr = r1 - r2;
+  const dg = g1 - g2;
+  const db = b1 - b2;
+  return (2 + rMean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - rMean) / 256) * db * db;
+}
+
+function nearestPaletteIndex(r: number, g: number, b: number, palette: readonly number[]): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let i = 0; i < palette.length; i++) {
+    const distance = colorDistance(r, g, b, palette[i]);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = i;
+    }
+  }
+  return best;
+}
+
+/**
+ * Map every pixel to a palette index (-1 = transparent).
+ * Floyd–Steinberg diffuses the quantization error to unvisited neighbours;
+ * ordered dithering nudges each pixel by a Bayer threshold before matching.
+ */
+export function quantizeImage(
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  palette: readonly number[],
+  dither: DitherMode
+): Int16Array {
+  const result = new Int16Array(width * height).fill(TRANSPARENT);
+  if (!palette.length) return result;
+
+  // Working copy in floats so diffused error can go out of the 0..255 range
+  const channels = new Float32Array(width * height * 3);
+  for (let i = 0; i < width * height; i++) {
+    channels[i * 3] = rgba[i * 4];
+    channels[i * 3 + 1] = rgba[i * 4 + 1];
+    channels[i * 3 + 2] = rgba[i * 4 + 2];
+  }
+  // Spread of the ordered threshold, roughly one palette step
+  const orderedSpread = 255 / Math.max(2, Math.cbrt(palette.length));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (rgba[i * 4 + 3] < MIN_OPAQUE_ALPHA) continue;
+
+      let r = channels[i * 3];
+      let g = channels[i * 3 + 1];
+      let b = channels[i * 3 + 2];
+      if (dither === 'ordered') {
+        const offset = BAYER_4[(y & 3) * 4 + (x & 3)] * orderedSpread;
+        r += offset;
+        g += offset;
+        b += offset;
+      }
+      r = Math.max(0, Math.min(255, r));
+      g = Math.max(0, Math.min(255, g));
+      b = Math.max(0, Math.min(255, b));
+
+      const index = nearestPaletteIndex(r, g, b, palette);
+      result[i] = index;
+
+      if (dither === 'floyd-steinberg') {
+        const chosen = palette[index];
+        const errors = [r - ((chosen >> 16) & 0xff), g - ((chosen >> 8) & 0xff), b - (chosen & 0xff)];
+        const spread = (dx: number, dy: number, weight: number) => {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || nx >= width || ny >= height) return;
+          const n = ny * width + nx;
+          if (rgba[n * 4 + 3] < MIN_OPAQUE_ALPHA) return;
+          for (let c = 0; c < 3; c++) channels[n * 3 + c] += errors[c] * weight;
+        };
+        spread(1, 0, 7 / 16);
+        spread(-1, 1, 3 / 16);
+        spread(0, 1, 5 / 16);
+        spread(1, 1, 1 / 16);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Render quantized indices back to RGBA, e.g. for a preview canvas
+ */
+export function renderQuantized(indices: Int16Array, palette: readonly number[]): Uint8ClampedArray<ArrayBuffer> {
+  const rgba = new Uint8ClampedArray(indices.length * 4);
+  for (let i = 0; i < indices.length; i++) {
+    const index = indices[i];
+    if (index === TRANSPARENT) continue;
+    const rgb = palette[index];
+    rgba[i * 4] = (rgb >> 16) & 0xff;
+    rgba[i * 4 + 1] = (rgb >> 8) & 0xff;
+    rgba[i * 4 + 2] = rgb & 0xff;
+    rgba[i * 4 + 3] = 255;
+  }
+  return rgba;
+}
+
+/**
+ * Placements needed to draw the quantized image at (offsetX, offsetY):
+ * only pixels on the board whose current color differs, in row order.
+ * `board` is a packed color index as built by buildBoardColorIndex.
+ */
+export function buildPixelPlan(
+  indices: Int16Array,
+  width: number,
+  height: number,
+  palette: readonly number[],
+  offsetX: number,
+  offsetY: number,
+  board: Int32Array,
+  boardSize: number
+): PlannedPixel[] {
+  const plan: PlannedPixel[] = [];
+  const colors = palette.map(formatHexColor);
+  for (let iy = 0; iy < height; iy++) {
+    const y = offsetY + iy;
+    if (y < 0 || y >= boardSize) continue;
+    for (let ix = 0; ix < width; ix++) {
+      const x = offsetX + ix;
+      if (x < 0 || x >= boardSize) continue;
+      const index = indices[iy * width + ix];
+      if (index === TRANSPARENT || board[y * boardSize + x] === palette[index]) continue;
+      plan.push({ x, y, color: colors[index] });
+    }
+  }
+  return plan;
+}
+
+/**
+ * Total cost and time to place `pixels` one by one at the contract cooldown
+ */
+export function estimatePlan(pixels: number, pixelPriceWei: bigint | null, intervalSeconds: number): PlanEstimate {
+  return {
+    pixels,
+    costWei: pixelPriceWei === null ? null : pixelPriceWei * BigInt(pixels),
+    // The first placement can go out immediately
+    etaSeconds: Math.max(0, pixels - 1) * Math.max(0, intervalSeconds),
+  };
+}
+
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${Math.round(seconds % 60)}s`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
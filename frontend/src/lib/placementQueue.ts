@@ -0,0 +1,116 @@
+import {
+  HOVER_MIN_ZOOM,
+  drawPixelHighlights,
+  parseHexColor,
+  type CanvasViewport,
+  type RenderContext
+} from './canvasRenderer';
+
+/** A pixel waiting to be placed by the queue scheduler */
+export interface QueuedPixel {
+  id: string;
+  x: number;
+  y: number;
+  color: string;
+  addedAt: number;
+}
+
+export interface PersistedQueue {
+  items: QueuedPixel[];
+  paused: boolean;
+}
+
+const QUEUE_KEY = 'pixel-placement-queue-v1';
+
+const coordKey = (x: number, y: number) => `${x}_${y}`;
+
+export function createQueueId(): string {
+  return `q_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+}
+
+export function loadQueue(): PersistedQueue {
+  try {
+    const raw = localStorage.getItem(QUEUE_KEY);
+    if (!raw) return { items: [], paused: false };
+    const parsed = JSON.parse(raw);
+    const items = Array.isArray(parsed?.items)
+      ? parsed.items.filter((item: Partial<QueuedPixel>): item is QueuedPixel =>
+          !!item &&
+          typeof item.id === 'string' &&
+          typeof item.x === 'number' &&
+          typeof item.y === 'number' &&
+          typeof item.color === 'string'
+        )
+      : [];
+    // Restored queues start paused so nothing is signed without the user noticing
+    return { items, paused: items.length > 0 || parsed?.paused === true };
+  } catch {
+    return { items: [], paused: false };
+  }
+}
+
+export function saveQueue(queue: PersistedQueue) {
+  try {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * Append pixels, one entry per coordinate: re-queueing a coordinate
+ * updates the color of the existing entry and keeps its position
+ */
+export function mergeIntoQueue(
+  items: QueuedPixel[],
+  pixels: readonly { x: number; y: number; color: string }[]
+): QueuedPixel[] {
+  const next = [...items];
+  const indexByCoord = new Map(items.map((item, index) => [coordKey(item.x, item.y), index]));
+  const now = Date.now();
+  for (const pixel of pixels) {
+    const key = coordKey(pixel.x, pixel.y);
+    const index = indexByCoord.get(key);
+    if (index !== undefined) {
+      next[index] = { ...next[index], color: pixel.color };
+    } else {
+      indexByCoord.set(key, next.length);
+      next.push({ id: createQueueId(), x: pixel.x, y: pixel.y, color: pixel.color, addedAt: now });
+    }
+  }
+  return next;
+}
+
+/**
+ * True when the board already shows the item's color. `board` is a packed
+ * color index as built by buildBoardColorIndex.
+ */
+export function isAlreadyPlaced(item: QueuedPixel, board: Int32Array, boardSize: number): boolean {
+  if (item.x < 0 || item.y < 0 || item.x >= boardSize || item.y >= boardSize) return false;
+  return board[item.y * boardSize + item.x] === parseHexColor(item.color);
+}
+
+/**
+ * Queued (or drafted) pixels as translucent previews with an outline, so
+ * pending work is visible on the board
+ */
+export function drawQueuedPixels(
+  ctx: RenderContext,
+  viewport: CanvasViewport,
+  items: readonly { x: number; y: number; color: string }[],
+  outlineColor: string
+) {
+  const { zoom, panX, panY, width, height } = viewport;
+  const size = Math.max(2, zoom);
+  ctx.save();
+  ctx.globalAlpha = 0.6;
+  for (const item of items) {
+    const xPos = item.x * zoom + panX;
+    const yPos = item.y * zoom + panY;
+    if (xPos < -size || xPos > width || yPos < -size || yPos > height) continue;
+    ctx.fillStyle = item.color;
+    ctx.fillRect(xPos, yPos, size, size);
+  }
+  ctx.restore();
+  if (zoom >= HOVER_MIN_ZOOM) drawPixelHighlights(ctx, viewport, items, outlineColor);
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import { SNAPSHOT_VERSION, migrateSnapshot, type SnapshotScope } from './snapshot'
+
+const scope: SnapshotScope = { chainId: 1270, contract: '0xAbCdEf0000000000000000000000000000000001' }
+
+const pixels = [
+  { x: 0, y: 0, color: '#ff0000', owner: '0x1', timestamp: 1700000000000 },
+  { x: 5, y: 9, color: '#000000' },
+]
+
+const current = (overrides: Record<string, unknown> = {}) => ({
+  version: SNAPSHOT_VERSION,
+  chainId: scope.chainId,
+  contract: scope.contract.toLowerCase(),
+  blockNumber: 42,
+  pixels,
+  ...overrides,
+})
+
+const rejection = (raw: unknown) => migrateSnapshot(raw, scope).reason
+
+describe('migrateSnapshot', () => {
+  it('accepts a current document for its scope', () => {
+    expect(migrateSnapshot(current(), scope)).toEqual({ reason: null, value: { blockNumber: 42, pixels } })
+  })
+
+  it('matches the contract address case-insensitively', () => {
+    expect(rejection(current({ contract: scope.contract.toUpperCase() }))).toBeNull()
+  })
+
+  describe('migrations', () => {
+    it('upgrades a version 1 document (no version field, with fundingIrys) into the current scope', () => {
+      const migrated = migrateSnapshot({ blockNumber: 7, pixels, fundingIrys: '12.5' }, scope)
+      expect(migrated).toEqual({ reason: null, value: { blockNumber: 7, pixels } })
+    })
+
+    it('upgrades an explicit version 1 document', () => {
+      expect(migrateSnapshot({ version: 1, blockNumber: 7, pixels: [] }, scope).value).toEqual({ blockNumber: 7, pixels: [] })
+    })
+
+    it('upgrades an unscoped version 2 document into the current scope', () => {
+      const migrated = migrateSnapshot({ version: 2, blockNumber: 8, pixels }, scope)
+      expect(migrated).toEqual({ reason: null, value: { blockNumber: 8, pixels } })
+    })
+
+    it('scopes older documents to whatever deployment loads them', () => {
+      const other: SnapshotScope = { chainId: 1, contract: '0x0000000000000000000000000000000000000002' }
+      expect(migrateSnapshot({ version: 2, blockNumber: 8, pixels }, other).reason).toBeNull()
+    })
+  })
+
+  describe('rejections', () => {
+    it('rejects values that are not objects', () => {
+      expect(rejection(null)).toBe('snapshot is not an object')
+      expect(rejection('snapshot')).toBe('snapshot is not an object')
+    })
+
+    it('rejects an invalid schema version', () => {
+      expect(rejection(current({ version: 0 }))).toBe('invalid schema version 0')
+      expect(rejection(current({ version: 1.5 }))).toBe('invalid schema version 1.5')
+      expect(rejection(current({ version: '3' }))).toBe('invalid schema version 3')
+    })
+
+    it('rejects a schema version newer than this build supports', () => {
+      expect(rejection(current({ version: SNAPSHOT_VERSION + 1 })))
+        .toBe(`schema version ${SNAPSHOT_VERSION + 1} is newer than supported version ${SNAPSHOT_VERSION}`)
+    })
+
+    it('rejects an invalid block number', () => {
+      expect(rejection(current({ blockNumber: -1 }))).toBe('invalid block number -1')
+      expect(rejection(current({ blockNumber: undefined }))).toBe('invalid block number undefined')
+    })
+
+    it('rejects a pixel list that is not an array', () => {
+      expect(rejection(current({ pixels: {} }))).toBe('pixels is not an array')
+    })
+
+    it('rejects pixels with invalid coordinates', () => {
+      expect(rejection(current({ pixels: [pixels[0], { x: -1, y: 0, color: '#ffffff' }] }))).toBe('pixel 1 has invalid coordinates')
+      expect(rejection(current({ pixels: [null] }))).toBe('pixel 0 has invalid coordinates')
+    })
+
+    it('rejects pixels with invalid colors', () => {
+      expect(rejection(current({ pixels: [{ x: 1, y: 2, color: 'red' }] }))).toBe('pixel 0 at (1, 2) has invalid color red')
+      expect(rejection(current({ pixels: [{ x: 1, y: 2, color: '#fff' }] }))).toBe('pixel 0 at (1, 2) has invalid color #fff')
+    })
+
+    it('rejects a snapshot from another chain', () => {
+      expect(rejection(current({ chainId: 1 }))).toBe(`snapshot is for chain 1, expected ${scope.chainId}`)
+    })
+
+    it('rejects a snapshot from another contract', () => {
+      const contract = '0x0000000000000000000000000000000000000002'
+      expect(rejection(current({ contract }))).toBe(`snapshot is for contract ${contract}, expected ${scope.contract}`)
+    })
+
+    it('validates older documents before migrating them', () => {
+      expect(rejection({ version: 1, blockNumber: 7, pixels: 'none' })).toBe('pixels is not an array')
+    })
+  })
+})
@@ -1,3 +1,5 @@
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb'
+
 export type PixelSnapshot = {
   x: number
   y: number
@@ -9,43 +11,363 @@ export type PixelSnapshot = {
 export type CanvasSnapshot = {
   blockNumber: number
   pixels: PixelSnapshot[]
-  fundingIrys: number // in Irys units (parsed for display)
 }
 
-const SNAPSHOT_KEY = 'pixel-canvas-snapshot-v1'
+/** Deployment a snapshot belongs to; snapshots of other deployments are never loaded */
+export type SnapshotScope = {
+  chainId: number
+  contract: string
+}
 
-export function loadSnapshot(): CanvasSnapshot | null {
-  try {
-    const raw = localStorage.getItem(SNAPSHOT_KEY)
-    if (!raw) return null
-    const parsed = JSON.parse(raw) as CanvasSnapshot
-    if (
-      typeof parsed.blockNumber === 'number' &&
-      Array.isArray(parsed.pixels) &&
-      typeof parsed.fundingIrys === 'number'
-    ) {
-      return parsed
+export type SnapshotLoadResult = {
+  snapshot: CanvasSnapshot | null
+  /** Why a stored snapshot was discarded, if one was */
+  rejected: string | null
+  /** Schema version the snapshot was upgraded from, if it was */
+  migratedFrom: number | null
+}
+
+/**
+ * Schema versions:
+ * 1 - localStorage JSON under 'pixel-canvas-snapshot-v1' (with fundingIrys)
+ * 2 - IndexedDB tiles with one unscoped meta record
+ * 3 - IndexedDB tiles and meta keyed by chain ID and contract address
+ */
+export const SNAPSHOT_VERSION = 3
+
+// The canvas is stored as fixed-size tiles so a live update only rewrites the tiles it touched
+export const SNAPSHOT_TILE_SIZE = 64
+const TILE_AREA = SNAPSHOT_TILE_SIZE * SNAPSHOT_TILE_SIZE
+
+const DB_NAME = 'pixel-canvas-snapshot'
+const DB_VERSION = 1
+const META_STORE = 'meta'
+const TILE_STORE = 'tiles'
+const LEGACY_LOCAL_STORAGE_KEY = 'pixel-canvas-snapshot-v1'
+const LEGACY_META_KEY = 'current'
+
+type SnapshotMeta = {
+  version: number
+  chainId: number
+  contract: string
+  blockNumber: number
+  tileSize: number
+  updatedAt: number
+}
+
+/**
+ * One tile of the board, indexed by (y * SNAPSHOT_TILE_SIZE + x) within the
+ * tile. Colors are packed RGB; owners are a per-tile table referenced by
+ * index + 1 (0 = unknown) and timestamps are seconds (0 = unknown).
+ */
+type StoredTile = {
+  key: string
+  tileX: number
+  tileY: number
+  placed: Uint8Array
+  colors: Uint8Array
+  ownerIndex: Uint16Array
+  owners: string[]
+  timestamps: Uint32Array
+}
+
+/** A snapshot of any schema version, as handed to the migrations */
+type SnapshotDocument = {
+  version: number
+  blockNumber: number
+  pixels: PixelSnapshot[]
+  chainId?: number
+  contract?: string
+}
+
+// reason is set when validation failed
+type Validation<T> = { value: T; reason: null } | { value: null; reason: string }
+
+// Each entry upgrades a document from its key version to the next one
+const SNAPSHOT_MIGRATIONS: Record<number, (doc: SnapshotDocument, scope: SnapshotScope) => SnapshotDocument> = {
+  // fundingIrys was dropped when funding was removed from the canvas
+  1: ({ blockNumber, pixels }) => ({ version: 2, blockNumber, pixels }),
+  // Neither older format recorded its deployment; they were written by the one this build targets
+  2: (doc, scope) => ({ ...doc, version: 3, chainId: scope.chainId, contract: scope.contract.toLowerCase() }),
+}
+
+const openSnapshotDb = () => openDatabase(DB_NAME, DB_VERSION, (db) => {
+  if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE)
+  if (!db.objectStoreNames.contains(TILE_STORE)) db.createObjectStore(TILE_STORE, { keyPath: 'key' })
+})
+
+const scopeKey = (scope: SnapshotScope) => `${scope.chainId}:${scope.contract.toLowerCase()}`
+
+// Scoped tile keys are `${scopeKey}/${tileX}_${tileY}`; version 2 tiles have no prefix
+const scopeTileRange = (scope: SnapshotScope) =>
+  IDBKeyRange.bound(`${scopeKey(scope)}/`, `${scopeKey(scope)}/\uffff`)
+
+const tileKey = (prefix: string, tileX: number, tileY: number) => `${prefix}${tileX}_${tileY}`
+
+const tileKeyOf = (prefix: string, x: number, y: number) =>
+  tileKey(prefix, Math.floor(x / SNAPSHOT_TILE_SIZE), Math.floor(y / SNAPSHOT_TILE_SIZE))
+
+const isNonNegativeInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0
+
+function encodeTile(key: string, tileX: number, tileY: number, pixels: PixelSnapshot[]): StoredTile {
+  const tile: StoredTile = {
+    key,
+    tileX,
+    tileY,
+    placed: new Uint8Array(TILE_AREA),
+    colors: new Uint8Array(TILE_AREA * 3),
+    ownerIndex: new Uint16Array(TILE_AREA),
+    owners: [],
+    timestamps: new Uint32Array(TILE_AREA),
+  }
+  const ownerSlots = new Map<string, number>()
+  for (const p of pixels) {
+    const index = (p.y - tileY * SNAPSHOT_TILE_SIZE) * SNAPSHOT_TILE_SIZE + (p.x - tileX * SNAPSHOT_TILE_SIZE)
+    const value = parseInt(p.color.replace('#', '').slice(0, 6), 16) || 0
+    tile.placed[index] = 1
+    tile.colors[index * 3] = (value >> 16) & 255
+    tile.colors[index * 3 + 1] = (value >> 8) & 255
+    tile.colors[index * 3 + 2] = value & 255
+    if (p.owner) {
+      let slot = ownerSlots.get(p.owner)
+      if (slot == null) {
+        slot = tile.owners.push(p.owner)
+        ownerSlots.set(p.owner, slot)
+      }
+      tile.ownerIndex[index] = slot
     }
-    return null
-  } catch {
-    return null
+    if (p.timestamp) tile.timestamps[index] = Math.floor(p.timestamp / 1000)
   }
+  return tile
 }
 
-export function saveSnapshot(snapshot: CanvasSnapshot) {
-  try {
-    localStorage.setItem(SNAPSHOT_KEY, JSON.stringify(snapshot))
-  } catch {
-    // ignore
+function decodeTile(tile: StoredTile, out: PixelSnapshot[]) {
+  const originX = tile.tileX * SNAPSHOT_TILE_SIZE
+  const originY = tile.tileY * SNAPSHOT_TILE_SIZE
+  for (let index = 0; index < TILE_AREA; index++) {
+    if (!tile.placed[index]) continue
+    const value = (tile.colors[index * 3] << 16) | (tile.colors[index * 3 + 1] << 8) | tile.colors[index * 3 + 2]
+    const pixel: PixelSnapshot = {
+      x: originX + (index % SNAPSHOT_TILE_SIZE),
+      y: originY + Math.floor(index / SNAPSHOT_TILE_SIZE),
+      color: `#${value.toString(16).padStart(6, '0')}`,
+    }
+    const slot = tile.ownerIndex[index]
+    if (slot) pixel.owner = tile.owners[slot - 1]
+    if (tile.timestamps[index]) pixel.timestamp = tile.timestamps[index] * 1000
+    out.push(pixel)
+  }
+}
+
+function validateTile(tile: StoredTile): string | null {
+  if (!isNonNegativeInteger(tile.tileX) || !isNonNegativeInteger(tile.tileY)) return `tile ${tile.key} has no position`
+  if (
+    tile.placed?.length !== TILE_AREA ||
+    tile.colors?.length !== TILE_AREA * 3 ||
+    tile.ownerIndex?.length !== TILE_AREA ||
+    tile.timestamps?.length !== TILE_AREA ||
+    !Array.isArray(tile.owners)
+  ) {
+    return `tile ${tile.key} has malformed pixel tables`
+  }
+  return null
+}
+
+function decodeTiles(tiles: StoredTile[]): Validation<PixelSnapshot[]> {
+  const pixels: PixelSnapshot[] = []
+  for (const tile of tiles) {
+    const problem = validateTile(tile)
+    if (problem) return { value: null, reason: problem }
+    decodeTile(tile, pixels)
   }
+  return { reason: null, value: pixels }
 }
 
-export function clearSnapshot() {
+/** Check the shape of a document of any version; older versions may lack a scope */
+function validateDocument(raw: unknown): Validation<SnapshotDocument> {
+  if (!raw || typeof raw !== 'object') return { value: null, reason: 'snapshot is not an object' }
+  const doc = raw as Partial<SnapshotDocument>
+  // Version 1 predates the version field
+  const version = doc.version ?? 1
+  if (!isNonNegativeInteger(version) || version < 1) return { value: null, reason: `invalid schema version ${String(doc.version)}` }
+  if (version > SNAPSHOT_VERSION) {
+    return { value: null, reason: `schema version ${version} is newer than supported version ${SNAPSHOT_VERSION}` }
+  }
+  if (!isNonNegativeInteger(doc.blockNumber)) return { value: null, reason: `invalid block number ${String(doc.blockNumber)}` }
+  if (!Array.isArray(doc.pixels)) return { value: null, reason: 'pixels is not an array' }
+  for (let i = 0; i < doc.pixels.length; i++) {
+    const p = doc.pixels[i]
+    if (!p || !isNonNegativeInteger(p.x) || !isNonNegativeInteger(p.y)) {
+      return { value: null, reason: `pixel ${i} has invalid coordinates` }
+    }
+    if (typeof p.color !== 'string' || !/^#[0-9a-f]{6}$/i.test(p.color)) {
+      return { value: null, reason: `pixel ${i} at (${p.x}, ${p.y}) has invalid color ${String(p.color)}` }
+    }
+  }
+  return { reason: null, value: { ...doc, version } as SnapshotDocument }
+}
+
+/** Upgrade a document to SNAPSHOT_VERSION and check it belongs to `scope` */
+export function migrateSnapshot(raw: unknown, scope: SnapshotScope): Validation<CanvasSnapshot> {
+  const validated = validateDocument(raw)
+  if (validated.reason) return { value: null, reason: validated.reason }
+  let doc = validated.value
+  while (doc.version < SNAPSHOT_VERSION) {
+    const migrate = SNAPSHOT_MIGRATIONS[doc.version]
+    if (!migrate) return { value: null, reason: `no migration from schema version ${doc.version}` }
+    doc = migrate(doc, scope)
+  }
+  if (doc.chainId !== scope.chainId) {
+    return { value: null, reason: `snapshot is for chain ${doc.chainId}, expected ${scope.chainId}` }
+  }
+  if (doc.contract?.toLowerCase() !== scope.contract.toLowerCase()) {
+    return { value: null, reason: `snapshot is for contract ${doc.contract}, expected ${scope.contract}` }
+  }
+  return { reason: null, value: { blockNumber: doc.blockNumber, pixels: doc.pixels } }
+}
+
+function validateMeta(meta: SnapshotMeta, scope: SnapshotScope): string | null {
+  if (meta.version !== SNAPSHOT_VERSION) return `unsupported schema version ${String(meta.version)}`
+  if (meta.tileSize !== SNAPSHOT_TILE_SIZE) return `tile size ${meta.tileSize} differs from ${SNAPSHOT_TILE_SIZE}`
+  if (meta.chainId !== scope.chainId || meta.contract !== scope.contract.toLowerCase()) {
+    return `snapshot is for ${meta.chainId}:${meta.contract}, expected ${scopeKey(scope)}`
+  }
+  if (!isNonNegativeInteger(meta.blockNumber)) return `invalid block number ${String(meta.blockNumber)}`
+  return null
+}
+
+type LegacySnapshot = {
+  version: number
+  raw?: unknown
+  problem?: string
+}
+
+function readLegacyLocalStorage(): LegacySnapshot | null {
   try {
-    localStorage.removeItem(SNAPSHOT_KEY)
+    const raw = localStorage.getItem(LEGACY_LOCAL_STORAGE_KEY)
+    localStorage.removeItem(LEGACY_LOCAL_STORAGE_KEY)
+    return raw ? { version: 1, raw: JSON.parse(raw) } : null
   } catch {
-    // ignore
+    return { version: 1, problem: 'stored JSON could not be read' }
+  }
+}
+
+/** The newest pre-scoping snapshot (version 2, else version 1), removing it from storage */
+async function takeLegacySnapshot(db: IDBDatabase): Promise<LegacySnapshot | null> {
+  const transaction = db.transaction([META_STORE, TILE_STORE], 'readwrite')
+  const metaStore = transaction.objectStore(META_STORE)
+  const tileStore = transaction.objectStore(TILE_STORE)
+  const [meta, tiles] = await Promise.all([
+    requestToPromise(metaStore.get(LEGACY_META_KEY)) as Promise<Pick<SnapshotMeta, 'blockNumber' | 'tileSize'> | undefined>,
+    requestToPromise(tileStore.getAll()) as Promise<StoredTile[]>,
+  ])
+  const legacyTiles = tiles.filter(tile => !tile.key.includes('/'))
+  metaStore.delete(LEGACY_META_KEY)
+  for (const tile of legacyTiles) tileStore.delete(tile.key)
+  await transactionDone(transaction)
+
+  const fromLocalStorage = readLegacyLocalStorage()
+  if (!meta) return fromLocalStorage
+  if (meta.tileSize !== SNAPSHOT_TILE_SIZE) {
+    return { version: 2, problem: `tile size ${meta.tileSize} differs from ${SNAPSHOT_TILE_SIZE}` }
   }
+  const decoded = decodeTiles(legacyTiles)
+  return !decoded.reason
+    ? { version: 2, raw: { version: 2, blockNumber: meta.blockNumber, pixels: decoded.value } }
+    : { version: 2, problem: decoded.reason }
 }
 
+/**
+ * Load the snapshot for `scope`. Snapshots from before scoping are upgraded
+ * through SNAPSHOT_MIGRATIONS and rewritten in the current format; anything
+ * that cannot be used is discarded and the reason returned.
+ */
+export async function loadSnapshot(scope: SnapshotScope): Promise<SnapshotLoadResult> {
+  const db = await openSnapshotDb()
+  const transaction = db.transaction([META_STORE, TILE_STORE], 'readonly')
+  const [meta, tiles] = await Promise.all([
+    requestToPromise(transaction.objectStore(META_STORE).get(scopeKey(scope))) as Promise<SnapshotMeta | undefined>,
+    requestToPromise(transaction.objectStore(TILE_STORE).getAll(scopeTileRange(scope))) as Promise<StoredTile[]>,
+  ])
+
+  if (meta) {
+    const problem = validateMeta(meta, scope)
+    if (problem) return { snapshot: null, rejected: problem, migratedFrom: null }
+    const decoded = decodeTiles(tiles)
+    if (decoded.reason) return { snapshot: null, rejected: decoded.reason, migratedFrom: null }
+    return { snapshot: { blockNumber: meta.blockNumber, pixels: decoded.value }, rejected: null, migratedFrom: null }
+  }
+
+  const legacy = await takeLegacySnapshot(db)
+  if (!legacy) return { snapshot: null, rejected: null, migratedFrom: null }
+  const migrated: Validation<CanvasSnapshot> = legacy.problem
+    ? { value: null, reason: legacy.problem }
+    : migrateSnapshot(legacy.raw, scope)
+  if (migrated.reason) {
+    return { snapshot: null, rejected: `version ${legacy.version} snapshot: ${migrated.reason}`, migratedFrom: null }
+  }
+  await saveSnapshot(scope, migrated.value)
+  return { snapshot: migrated.value, rejected: null, migratedFrom: legacy.version }
+}
+
+/**
+ * Persist the canvas as of `snapshot.blockNumber`. With `changed`, only tiles
+ * containing one of those coordinates are rewritten; without it every tile of
+ * the scope is replaced. Tiles and the block number are committed in one
+ * transaction, so a reload never sees tiles newer or older than the recorded
+ * block.
+ */
+export async function saveSnapshot(
+  scope: SnapshotScope,
+  snapshot: CanvasSnapshot,
+  changed?: Iterable<{ x: number; y: number }>
+): Promise<void> {
+  const prefix = `${scopeKey(scope)}/`
+  let dirty: Set<string> | null = null
+  if (changed) {
+    dirty = new Set()
+    for (const { x, y } of changed) dirty.add(tileKeyOf(prefix, x, y))
+  }
+
+  const byTile = new Map<string, { tileX: number; tileY: number; pixels: PixelSnapshot[] }>()
+  for (const p of snapshot.pixels) {
+    const key = tileKeyOf(prefix, p.x, p.y)
+    if (dirty && !dirty.has(key)) continue
+    const entry = byTile.get(key)
+    if (entry) entry.pixels.push(p)
+    else byTile.set(key, { tileX: Math.floor(p.x / SNAPSHOT_TILE_SIZE), tileY: Math.floor(p.y / SNAPSHOT_TILE_SIZE), pixels: [p] })
+  }
 
+  const db = await openSnapshotDb()
+  const transaction = db.transaction([META_STORE, TILE_STORE], 'readwrite')
+  const tiles = transaction.objectStore(TILE_STORE)
+  if (!dirty) tiles.delete(scopeTileRange(scope))
+  for (const [key, { tileX, tileY, pixels }] of byTile) {
+    tiles.put(encodeTile(key, tileX, tileY, pixels))
+  }
+  // Dirty tiles that no longer hold any pixels
+  if (dirty) {
+    for (const key of dirty) {
+      if (!byTile.has(key)) tiles.delete(key)
+    }
+  }
+  const meta: SnapshotMeta = {
+    version: SNAPSHOT_VERSION,
+    chainId: scope.chainId,
+    contract: scope.contract.toLowerCase(),
+    blockNumber: snapshot.blockNumber,
+    tileSize: SNAPSHOT_TILE_SIZE,
+    updatedAt: Date.now(),
+  }
+  transaction.objectStore(META_STORE).put(meta, scopeKey(scope))
+  await transactionDone(transaction)
+}
+
+export async function clearSnapshot(scope: SnapshotScope): Promise<void> {
+  const db = await openSnapshotDb()
+  const transaction = db.transaction([META_STORE, TILE_STORE], 'readwrite')
+  transaction.objectStore(META_STORE).delete(scopeKey(scope))
+  transaction.objectStore(TILE_STORE).delete(scopeTileRange(scope))
+  await transactionDone(transaction)
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useCallback } from "react";
 import { CompactWalletConnect } from "@/components/CompactWalletConnect";
 import { EnhancedPixelCanvas } from "@/components/EnhancedPixelCanvas";
 import { CanvasBottomBar } from "@/components/CanvasBottomBar";
@@ -7,6 +7,15 @@ import { SpecialSaleBanner } from "@/components/SpecialSaleBanner";
 import { SaleEndedBanner } from "@/components/SaleEndedBanner";
 import { useOptimisticCanvas } from "@/hooks/useOptimisticCanvas";
 import { useCanvasSync } from "@/hooks/useCanvasSync";
+import { useTimelapse } from "@/hooks/useTimelapse";
+import { useTimeTravel } from "@/hooks/useTimeTravel";
+import { useCanvasDiff } from "@/hooks/useCanvasDiff";
+import { useCanvasTemplates } from "@/hooks/useCanvasTemplates";
+import { usePlacementQueue } from "@/hooks/usePlacementQueue";
+import { useDraftLayers } from "@/hooks/useDraftLayers";
+import { useDrawingDraft } from "@/hooks/useDrawingDraft";
+import { useTextTool } from "@/hooks/useTextTool";
+import { useAnalyticsOverlay } from "@/hooks/useAnalyticsOverlay";
 import { usePixelPlacement } from "@/hooks/usePixelPlacement";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { Button } from "@/components/ui/button";
@@ -14,8 +23,23 @@ import { Badge } from "@/components/ui/badge";
 import { SidebarProvider } from "@/components/ui/sidebar";
 import { ColorSidebar } from "@/components/ColorSidebar";
 import { MobileColorPicker } from "@/components/MobileColorPicker";
-import { Grid3X3, Users } from "lucide-react";
+import { TimelapsePlayer } from "@/components/TimelapsePlayer";
+import { TimeTravelPanel } from "@/components/TimeTravelPanel";
+import { CanvasDiffPanel } from "@/components/CanvasDiffPanel";
+import { TemplatePanel } from "@/components/TemplatePanel";
+import { ImageConverterDialog } from "@/components/ImageConverterDialog";
+import { PlacementQueuePanel } from "@/components/PlacementQueuePanel";
+import { DrawingToolbar } from "@/components/DrawingToolbar";
+import { DraftLayersPanel } from "@/components/DraftLayersPanel";
+import { TextToolPanel } from "@/components/TextToolPanel";
+import { AnalyticsOverlayPanel } from "@/components/AnalyticsOverlayPanel";
+import { SyncProgressIndicator } from "@/components/SyncProgressIndicator";
+import { Grid3X3, Users, ImagePlus } from "lucide-react";
+import { toast } from "sonner";
 import { fetchCanvasInfo } from "@/lib/contract";
+import { drawPixelHighlights, type CanvasOverlay } from "@/lib/canvasRenderer";
+import { drawQueuedPixels } from "@/lib/placementQueue";
+import { addToColorHistory } from "@/lib/colorPalettes";
 
 interface Pixel { 
   x: number; 
@@ -27,12 +51,46 @@ interface Pixel {
   irysPayloadLength?: number;
 }
 
+// Set VITE_CANVAS_RENDER_MODE=worker to render the canvas off the main thread (falls back when unsupported)
+const CANVAS_RENDER_MODE = import.meta.env.VITE_CANVAS_RENDER_MODE === 'worker' ? 'worker' : 'main';
+
 const Index = () => {
   const isMobile = useIsMobile();
   const optimisticCanvas = useOptimisticCanvas();
   const { 
-    confirmedPixels
+    confirmedPixels,
+    pixelChanges,
+    boardVersion,
+    syncedBlock,
+    syncProgress,
+    tentativePixels
   } = useCanvasSync();
+  // History views swap their own board into the canvas; live sync keeps running underneath
+  const timelapse = useTimelapse();
+  const timeTravel = useTimeTravel();
+  const canvasDiff = useCanvasDiff();
+  const isReplaying = timelapse.isOpen && !!timelapse.history;
+  const historyView = timeTravel.isReady
+    ? { pixels: timeTravel.pixels, changes: null, block: timeTravel.block }
+    : canvasDiff.isReady
+      ? {
+          pixels: canvasDiff.pixels,
+          changes: null,
+          block: canvasDiff.view === 'before' ? canvasDiff.diff.fromBlock : canvasDiff.diff.toBlock
+        }
+      : isReplaying
+        ? { pixels: timelapse.pixels, changes: timelapse.changes, block: timelapse.currentBlock }
+        : null;
+  const isHistoryViewOpen = timelapse.isOpen || timeTravel.isActive || canvasDiff.isOpen;
+  const { close: closeTimelapse } = timelapse;
+  const { exit: exitTimeTravel } = timeTravel;
+  const { close: closeCanvasDiff } = canvasDiff;
+  // Only one history view at a time
+  const closeHistoryViews = useCallback(() => {
+    closeTimelapse();
+    exitTimeTravel();
+    closeCanvasDiff();
+  }, [closeTimelapse, exitTimeTravel, closeCanvasDiff]);
   
   const [selectedColor, setSelectedColor] = useState("#a855f7");
   const [canvasSize, setCanvasSize] = useState({ width: 1024, height: 1024 }); // Fixed 1024x1024
@@ -40,14 +98,21 @@ const Index = () => {
   const [pixelPriceWei, setPixelPriceWei] = useState<bigint | null>(null);
   const [activeUsers] = useState(0);
   const [userPixels] = useState(0);
+  const [isConverterOpen, setIsConverterOpen] = useState(false);
 
+  // Templates compare against the live board, so they are hidden while viewing history
+  const templates = useCanvasTemplates(confirmedPixels, canvasSize.width);
   // 낙관적 픽셀과 확정 픽셀을 합친 최종 픽셀 배열
-  const pixels = optimisticCanvas.mergePixelsWithOptimistic(
+  // Memoized so the canvas only re-syncs its texture when the inputs change
+  const { mergePixelsWithOptimistic } = optimisticCanvas;
+  const pixels = useMemo(() => mergePixelsWithOptimistic(
     confirmedPixels.map(p => ({
       ...p,
       timestamp: p.timestamp || Date.now()
     }))
-  );
+  ), [confirmedPixels, mergePixelsWithOptimistic]);
+  // Optimistic pixels change the board outside the sync's change sets, so each change counts as a new board version
+  const canvasBoardVersion = boardVersion + optimisticCanvas.revision;
 
   const { 
     transactions, 
@@ -59,6 +124,42 @@ const Index = () => {
     loadPixelsAndTransactionsIfNeeded(true);
   });
 
+  // Pixels queued for placement once the contract cooldown allows
+  const queue = usePlacementQueue(handlePixelPlace, confirmedPixels, canvasSize.width);
+  // Drawing tools paint into local draft layers; committing a layer feeds the queue
+  const draftLayers = useDraftLayers(confirmedPixels, canvasSize.width);
+  const textTool = useTextTool(draftLayers, selectedColor, canvasSize.width);
+  const drawing = useDrawingDraft(selectedColor, draftLayers, canvasSize.width, textTool.setPosition);
+  const isTextToolActive = drawing.tool === 'text';
+  // Heatmap / age / placement type, drawn under the drafts so sketches stay visible
+  const analytics = useAnalyticsOverlay(syncedBlock, canvasSize.width);
+
+  const { isReady: isDiffReady, showHighlights: showDiffHighlights, highlighted: diffHighlights } = canvasDiff;
+  const { items: queuedPixels } = queue;
+  const canvasOverlays = useMemo((): CanvasOverlay[] => {
+    if (!isHistoryViewOpen) {
+      const base = [...analytics.overlays, ...templates.overlays, ...draftLayers.overlays];
+      // Pixels from blocks without enough confirmations may still be rolled back by a reorg
+      if (tentativePixels.length) {
+        base.push({
+          key: 'tentative-pixels',
+          draw: (ctx, viewport) => drawPixelHighlights(ctx, viewport, tentativePixels, '#94a3b8')
+        });
+      }
+      const preview = isTextToolActive ? textTool.overlays : drawing.overlays;
+      if (!queuedPixels.length) return [...base, ...preview];
+      return [...base, {
+        key: 'placement-queue',
+        draw: (ctx, viewport) => drawQueuedPixels(ctx, viewport, queuedPixels, '#f59e0b')
+      }, ...preview];
+    }
+    if (!isDiffReady || !showDiffHighlights || !diffHighlights.length) return [];
+    return [{
+      key: 'diff-highlights',
+      draw: (ctx, viewport) => drawPixelHighlights(ctx, viewport, diffHighlights, '#ec4899')
+    }];
+  }, [isHistoryViewOpen, analytics.overlays, templates.overlays, draftLayers.overlays, tentativePixels, queuedPixels, isTextToolActive, textTool.overlays, drawing.overlays, isDiffReady, showDiffHighlights, diffHighlights]);
+
   // Load canvas info and set fixed size to 1024x1024
   useEffect(() => {
     let mounted = true;
@@ -90,9 +191,22 @@ const Index = () => {
 
   // Pixel place handler with funding success callback
   const handlePixelPlaceWrapper = async (pixel: Pixel) => {
+    if (queue.isQueueMode) {
+      queue.enqueue([pixel]);
+      return;
+    }
     await handlePixelPlace(pixel);
   };
 
+  // Eyedropper: sampled colors become the brush color and join the palette history
+  const { finishEyedropper } = drawing;
+  const handleColorPick = useCallback((color: string) => {
+    setSelectedColor(color);
+    addToColorHistory(color);
+    finishEyedropper();
+    toast.success(`Picked ${color.toUpperCase()}`);
+  }, [finishEyedropper]);
+
   const handleContributeWrapper = async (amount: number) => {
     await handleContribute(amount);
   };
@@ -157,18 +271,69 @@ const Index = () => {
                   return now < bannerEndTime ? <SaleEndedBanner /> : null;
                 }
               })()}
+              <div className="mb-3 flex flex-wrap gap-2">
+                {(!isHistoryViewOpen || timelapse.isOpen) && (
+                  <TimelapsePlayer timelapse={timelapse} onBeforeOpen={closeHistoryViews} />
+                )}
+                {(!isHistoryViewOpen || timeTravel.isActive) && (
+                  <TimeTravelPanel timeTravel={timeTravel} onBeforeTravel={closeHistoryViews} />
+                )}
+                {(!isHistoryViewOpen || canvasDiff.isOpen) && (
+                  <CanvasDiffPanel canvasDiff={canvasDiff} onBeforeCompare={closeHistoryViews} />
+                )}
+                {!isHistoryViewOpen && <TemplatePanel templates={templates} boardSize={canvasSize.width} />}
+                {!isHistoryViewOpen && (
+                  <Button variant="outline" size="sm" onClick={() => setIsConverterOpen(true)} className="h-8">
+                    <ImagePlus className="h-3 w-3 mr-2" />
+                    Image to pixels
+                  </Button>
+                )}
+                <PlacementQueuePanel queue={queue} />
+                {!isHistoryViewOpen && (
+                  <DraftLayersPanel layers={draftLayers} pixelPriceWei={pixelPriceWei} onCommit={queue.enqueue} />
+                )}
+                {!isHistoryViewOpen && (
+                  <DrawingToolbar drawing={drawing} layers={draftLayers} pixelPriceWei={pixelPriceWei} onCommit={queue.enqueue} />
+                )}
+                {!isHistoryViewOpen && <AnalyticsOverlayPanel analytics={analytics} />}
+                {syncProgress && <SyncProgressIndicator progress={syncProgress} />}
+              </div>
+              {!isHistoryViewOpen && isTextToolActive && (
+                <TextToolPanel textTool={textTool} layerName={draftLayers.activeLayer?.name ?? null} />
+              )}
               <EnhancedPixelCanvas 
                 selectedColor={selectedColor} 
                 onPixelPlace={handlePixelPlaceWrapper} 
-                pixels={pixels} 
+                pixels={historyView ? historyView.pixels : pixels} 
+                pixelChanges={historyView ? historyView.changes : pixelChanges}
+                boardVersion={historyView ? undefined : canvasBoardVersion}
                 canvasSize={canvasSize} 
                 pixelPrice={pixelPrice} 
+                renderMode={CANVAS_RENDER_MODE}
+                syncedBlock={historyView ? historyView.block : syncedBlock}
+                readOnly={isHistoryViewOpen}
+                overlays={canvasOverlays}
+                drawing={drawing.handlers}
+                isPickingColor={drawing.isPickingColor}
+                onColorPick={handleColorPick}
               />
             </div>
           </main>
 
         </div>
         
+        <ImageConverterDialog
+          open={isConverterOpen}
+          onOpenChange={setIsConverterOpen}
+          boardPixels={confirmedPixels}
+          boardSize={canvasSize.width}
+          pixelPriceWei={pixelPriceWei}
+          onQueuePlan={(plan) => {
+            queue.enqueue(plan);
+            toast.success(`Added ${plan.length.toLocaleString()} pixels to the placement queue`);
+          }}
+        />
+        
         {/* Fixed Bottom Bar */}
         <CanvasBottomBar pixels={pixels} />
       </div>
@@ -0,0 +1,68 @@
+// Render worker for EnhancedPixelCanvas in offscreen mode.
+// Owns the transferred OffscreenCanvas and a copy of the backing store;
+// the main thread only posts texel deltas, frame state and resizes.
+import {
+  PixelBackingStore,
+  renderDirtyRegions,
+  type PixelCoord,
+  type PixelRegion,
+  type RenderTheme
+} from '@/lib/canvasRenderer';
+import { DirtyRegionScheduler } from '@/lib/dirtyRegionScheduler';
+import type { CanvasFrame, CanvasWorkerMessage } from '@/lib/canvasSurfaces';
+
+let canvas: OffscreenCanvas | null = null;
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+let store: PixelBackingStore | null = null;
+let frame: CanvasFrame | null = null;
+let theme: RenderTheme | null = null;
+
+const draw = (regions: PixelRegion[] | null) => {
+  if (!ctx || !store || !frame || !theme) return;
+  renderDirtyRegions(ctx, store, frame.viewport, theme, frame.options, regions);
+};
+
+const scheduler = new DirtyRegionScheduler(draw);
+
+self.addEventListener('message', (event: MessageEvent<CanvasWorkerMessage>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'init':
+      canvas = message.canvas;
+      ctx = canvas.getContext('2d');
+      store = new PixelBackingStore(message.size);
+      break;
+    case 'resize':
+      if (!canvas) return;
+      canvas.width = message.width;
+      canvas.height = message.height;
+      scheduler.invalidateAll();
+      break;
+    case 'load':
+      store?.importBuffers(message.rgba, message.irys);
+      scheduler.invalidateAll();
+      break;
+    case 'delta': {
+      if (!store) return;
+      const { entries } = message;
+      const touched: PixelCoord[] = [];
+      for (let i = 0; i < entries.length; i += 4) {
+        const x = entries[i];
+        const y = entries[i + 1];
+        const rgb = entries[i + 2];
+        const changed = rgb < 0
+          ? store.clearPixel(x, y)
+          : store.setPixelRGB(x, y, rgb, entries[i + 3] === 1);
+        if (changed) touched.push({ x, y });
+      }
+      scheduler.invalidatePixels(touched);
+      break;
+    }
+    case 'frame':
+      frame = message.frame;
+      theme = message.theme;
+      // Pan/zoom frames arrive faster than the display refreshes; draw the latest once
+      scheduler.invalidateAll();
+      break;
+  }
+});